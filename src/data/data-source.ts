@@ -0,0 +1,283 @@
+/**
+ * Sources of the MeteoSwiss product output
+ *
+ * The data layer reads every product through a data source: the live product output over
+ * HTTP, the test fixtures, or a local mirror directory with the layout of the product output.
+ * A server gets its source through `createServer`, so each instance can use its own.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { CacheStatus } from '../schemas/weather-report.js';
+import { fetchWithRetry } from '../support/http-communication.js';
+import type { HttpRequestOptions } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import { resolveRetryPolicy } from '../support/retry-policy.js';
+import type { RetryPolicy } from '../support/retry-policy.js';
+import { upstreamCache } from '../support/upstream-cache.js';
+import {
+  fetchFromOrigins,
+  getUpstreamOrigins,
+  parseVersionDirectory,
+  ProductNotFoundError,
+  TEST_FIXTURES_ROOT,
+} from './product-output.js';
+import type { UpstreamOrigins } from './product-output.js';
+import { VersionHistory } from './version-history.js';
+
+/**
+ * Kind of a data source
+ */
+export type DataSourceKind = 'http' | 'fixtures' | 'mirror';
+
+/**
+ * A document read from a data source
+ */
+export type DataSourceDocument = {
+  text: string;
+  /** Cache status, only for cached documents fetched over HTTP */
+  cache?: CacheStatus;
+  /** Base URL that served the document, only for documents fetched over HTTP */
+  origin?: string;
+};
+
+/**
+ * Options for reading a document
+ */
+export type ReadDocumentOptions = {
+  /** Expected media type, sent as `Accept` header over HTTP */
+  accept?: string;
+  /**
+   * Caches the document over HTTP: `immutable` for documents in version directories,
+   * `revalidate` for documents that change, like versions.json; not cached by default
+   */
+  cache?: 'immutable' | 'revalidate';
+  /**
+   * Retry policy of the call site over HTTP, overriding the configured default policy;
+   * its deadline applies to all origins together
+   */
+  retry?: Partial<RetryPolicy>;
+};
+
+/**
+ * Source of the documents of the product output
+ */
+export interface DataSource {
+  readonly kind: DataSourceKind;
+  /**
+   * Whether documents are fetched over the network, so parsed reports are cached
+   * and the last good report is served when the source fails
+   */
+  readonly remote: boolean;
+
+  /**
+   * Reads a document of the product output
+   *
+   * @param productPath - Path relative to the product output root
+   * @param options - Read options
+   * @returns The document text
+   * @throws {HttpRequestError} If a request over HTTP fails
+   * @throws {ProductNotFoundError} If a file of a directory does not exist
+   */
+  readText(productPath: string, options?: ReadDocumentOptions): Promise<DataSourceDocument>;
+
+  /**
+   * Lists the version directories below a product directory that are known besides the
+   * current one in its versions.json
+   *
+   * @param productDir - Product directory relative to the product output root
+   * @returns The names of the version directories
+   */
+  listVersionDirectories(productDir: string): Promise<string[]>;
+}
+
+/**
+ * The live product output, requested from the upstream origins in turn
+ *
+ * The product output cannot be listed and a versions.json names only the current version,
+ * so the known versions of a product are the ones its versions.json named so far, kept in
+ * the version history.
+ */
+export class HttpDataSource implements DataSource {
+  readonly kind = 'http';
+  readonly remote = true;
+
+  /**
+   * @param origins - Origins to request, defaults to the configured upstream origins
+   * @param history - History of the versions named as current, in memory only by default
+   */
+  constructor(
+    private origins?: UpstreamOrigins,
+    private history: VersionHistory = new VersionHistory()
+  ) {}
+
+  async readText(
+    productPath: string,
+    options: ReadDocumentOptions = {}
+  ): Promise<DataSourceDocument> {
+    const request = async (
+      url: string,
+      deadline: number
+    ): Promise<{ text: string; cache?: CacheStatus }> => {
+      const requestOptions: HttpRequestOptions = {
+        ...(options.accept && { headers: { Accept: options.accept } }),
+        ...(options.retry && { retry: options.retry }),
+        deadline,
+      };
+      return options.cache
+        ? upstreamCache.fetchText(url, {
+            ...requestOptions,
+            immutable: options.cache === 'immutable',
+          })
+        : { text: await fetchWithRetry(url, requestOptions) };
+    };
+    const { value, origin } = await fetchFromOrigins(
+      productPath,
+      request,
+      getUpstreamOrigins(this.origins),
+      Date.now() + resolveRetryPolicy(options.retry).deadlineMs
+    );
+    debugData('Fetched %s from %s', productPath, origin);
+    if (productPath.endsWith('/versions.json')) {
+      await this.recordCurrentVersion(path.posix.dirname(productPath), value.text);
+    }
+    return { text: value.text, ...(value.cache && { cache: value.cache }), origin };
+  }
+
+  async listVersionDirectories(productDir: string): Promise<string[]> {
+    return this.history.list(productDir);
+  }
+
+  private async recordCurrentVersion(productDir: string, text: string): Promise<void> {
+    let current: unknown;
+    try {
+      current = (JSON.parse(text) as { currentVersionDirectory?: unknown }).currentVersionDirectory;
+    } catch {
+      return;
+    }
+    if (typeof current !== 'string' || !parseVersionDirectory(current)) {
+      return;
+    }
+    await this.history.record(productDir, current);
+  }
+}
+
+/**
+ * A directory with the layout of the product output
+ */
+class DirectoryDataSource implements DataSource {
+  readonly remote = false;
+
+  constructor(
+    readonly kind: Exclude<DataSourceKind, 'http'>,
+    readonly directory: string
+  ) {}
+
+  async readText(productPath: string): Promise<DataSourceDocument> {
+    const filePath = path.join(this.directory, productPath);
+    let text;
+    try {
+      text = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new ProductNotFoundError(
+        `Not found in the ${this.kind} directory: ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        productPath
+      );
+    }
+    debugData('Read %s (%d bytes)', filePath, text.length);
+    return { text };
+  }
+
+  async listVersionDirectories(productDir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(path.join(this.directory, productDir), {
+        withFileTypes: true,
+      });
+      return entries
+        .filter((entry) => entry.isDirectory() && parseVersionDirectory(entry.name))
+        .map((entry) => entry.name);
+    } catch (error) {
+      debugData('Cannot list %s in %s: %O', productDir, this.directory, error);
+      return [];
+    }
+  }
+}
+
+/**
+ * The test fixtures, read as they are on every call so tests can change them
+ */
+export class FixtureDataSource extends DirectoryDataSource {
+  /**
+   * @param directory - The fixture directory, defaults to `test/__fixtures__`
+   */
+  constructor(directory: string = TEST_FIXTURES_ROOT) {
+    super('fixtures', directory);
+  }
+}
+
+/**
+ * A local copy of the product output, e.g. recorded for offline use
+ */
+export class MirrorDataSource extends DirectoryDataSource {
+  /**
+   * @param directory - The mirror directory
+   */
+  constructor(directory: string) {
+    super('mirror', directory);
+  }
+}
+
+/**
+ * Options for choosing a data source
+ */
+export interface DataSourceOptions {
+  /** Read the test fixtures */
+  useTestFixtures?: boolean;
+  /** Read a local mirror directory instead of the live product output */
+  mirrorDir?: string;
+  /**
+   * Directory the versions named as current by the live product output are persisted to,
+   * empty to keep them in memory only
+   */
+  versionHistoryDir?: string;
+}
+
+/**
+ * Creates the data source for the given options
+ *
+ * @param options - The options, e.g. from the environment
+ * @returns The fixtures, the mirror directory or, by default, the live product output
+ */
+export function createDataSource(options: DataSourceOptions = {}): DataSource {
+  if (options.useTestFixtures) {
+    return new FixtureDataSource();
+  }
+  if (options.mirrorDir) {
+    return new MirrorDataSource(options.mirrorDir);
+  }
+  return new HttpDataSource(undefined, new VersionHistory(options.versionHistoryDir));
+}
+
+let defaultDataSource: DataSource | undefined;
+
+/**
+ * Gets the data source used when a caller doesn't pass one
+ *
+ * Until one is set, it is chosen by `USE_TEST_FIXTURES` on first use.
+ *
+ * @returns The default data source
+ */
+export function getDefaultDataSource(): DataSource {
+  defaultDataSource ??= createDataSource({
+    useTestFixtures: process.env.USE_TEST_FIXTURES === 'true',
+  });
+  return defaultDataSource;
+}
+
+/**
+ * Changes the data source used when a caller doesn't pass one
+ */
+export function setDefaultDataSource(source: DataSource): void {
+  debugData('Default data source: %s', source.kind);
+  defaultDataSource = source;
+}
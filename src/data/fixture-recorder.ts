@@ -0,0 +1,234 @@
+/**
+ * Recorder of weather report fixtures
+ *
+ * Captures the versions.json and the text products of every region and language from a data
+ * source into the layout of `test/__fixtures__`. Volatile parts of the documents are
+ * normalized, so recording the same versions again writes the same files, and a manifest
+ * lists what was recorded. Files of earlier recordings are overwritten but never deleted.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { TextProductVersionsRawSchema } from '../schemas/weather-report.js';
+import type { TextProductVersionsRaw } from '../schemas/weather-report.js';
+import { debugData } from '../support/logging.js';
+import { LanguageSchema, RegionSchema } from '../types/meteoswiss.js';
+import type { Language, Region } from '../types/meteoswiss.js';
+import type { DataSource } from './data-source.js';
+import { PRODUCT_OUTPUT_BASE_URL } from './product-output.js';
+import { textProductDir, textProductFile } from './weather-report-data.js';
+
+/**
+ * Options of a recording
+ */
+export interface RecordFixturesOptions {
+  /** Source to record from, usually the live product output */
+  source: DataSource;
+  /** Directory to write to, with the layout of the product output */
+  outputDir: string;
+  /** Regions to record, defaults to all */
+  regions?: Region[];
+  /** Languages to record, defaults to all */
+  languages?: Language[];
+  /**
+   * Record only the current version instead of every version the source knows; over HTTP
+   * those are the versions named as current since the source was created
+   */
+  currentOnly?: boolean;
+}
+
+/**
+ * A recorded file
+ */
+export type RecordedFile = {
+  /** Path relative to the output directory */
+  path: string;
+  bytes: number;
+  sha256: string;
+  /** Base URL that served the file, only for files fetched over HTTP */
+  origin?: string;
+};
+
+/**
+ * A recorded report directory, shared by the languages stored in it
+ */
+export type RecordedReport = {
+  /** Directory relative to the output directory, e.g. `weather-report/de/north` */
+  directory: string;
+  region: Region;
+  languages: Language[];
+  currentVersionDirectory: string;
+  /** The recorded version directories, newest first */
+  versionDirectories: string[];
+};
+
+/**
+ * Manifest of a recording, written to `weather-report/manifest.json`
+ */
+export type FixtureManifest = {
+  recordedAt: string;
+  source: DataSource['kind'];
+  reports: RecordedReport[];
+  files: RecordedFile[];
+  /** Documents that could not be recorded */
+  failures: { path: string; error: string }[];
+};
+
+/**
+ * Normalizes a text product for a fixture
+ *
+ * Removes comments and `nonce` attributes, which change with every response, points links
+ * to the serving origin at the MeteoSwiss product output and unifies line endings.
+ *
+ * @param html - The text product as served
+ * @param origin - The base URL that served it, if fetched over HTTP
+ * @returns The normalized text product, ending with a newline
+ */
+export function normalizeTextProduct(html: string, origin?: string): string {
+  let normalized = html
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+nonce="[^"]*"/g, '');
+  if (origin && origin !== PRODUCT_OUTPUT_BASE_URL) {
+    normalized = normalized.split(origin).join(PRODUCT_OUTPUT_BASE_URL);
+  }
+  return `${normalized.replace(/[ \t]+$/gm, '').trimEnd()}\n`;
+}
+
+/**
+ * Normalizes a versions.json for a fixture
+ *
+ * Keeps the versions.json as served apart from fields holding a timestamp, which change
+ * with every response. It names only the current version; the recorded versions are
+ * listed in the manifest.
+ *
+ * @param text - The versions.json as served
+ * @returns The normalized versions.json, ending with a newline
+ */
+export function normalizeVersions(text: string): string {
+  const versions = JSON.parse(text) as Record<string, unknown>;
+  const kept = Object.entries(versions).filter(
+    ([, value]) => !(typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value))
+  );
+  return `${JSON.stringify(Object.fromEntries(kept))}\n`;
+}
+
+/**
+ * Records the weather reports of a data source as fixtures
+ *
+ * Documents that cannot be read are listed as failures and the recording continues.
+ * A report directory is only written if its current version was recorded.
+ *
+ * @param options - The source, the output directory and what to record
+ * @returns The manifest, also written to the output directory
+ */
+export async function recordWeatherReportFixtures(
+  options: RecordFixturesOptions
+): Promise<FixtureManifest> {
+  const {
+    source,
+    outputDir,
+    regions = RegionSchema.options,
+    languages = LanguageSchema.removeDefault().options,
+    currentOnly = false,
+  } = options;
+  const manifest: FixtureManifest = {
+    recordedAt: new Date().toISOString(),
+    source: source.kind,
+    reports: [],
+    files: [],
+    failures: [],
+  };
+
+  const writeFile = async (productPath: string, text: string, origin?: string): Promise<void> => {
+    const filePath = path.join(outputDir, productPath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, text);
+    manifest.files.push({
+      path: productPath,
+      bytes: Buffer.byteLength(text),
+      sha256: createHash('sha256').update(text).digest('hex'),
+      ...(origin && { origin }),
+    });
+    debugData('Recorded %s', productPath);
+  };
+  const fail = (productPath: string, error: unknown): void => {
+    const message = error instanceof Error ? error.message : String(error);
+    debugData('Cannot record %s: %s', productPath, message);
+    manifest.failures.push({ path: productPath, error: message });
+  };
+
+  for (const region of regions) {
+    // English reports are stored next to the German ones, so a directory has several languages
+    const directories = new Map<string, Language[]>();
+    for (const language of languages) {
+      const directory = textProductDir('weather-report', region, language);
+      directories.set(directory, [...(directories.get(directory) ?? []), language]);
+    }
+
+    for (const [directory, directoryLanguages] of directories) {
+      const versionsPath = `${directory}/versions.json`;
+      let versionsText: string;
+      let versions: TextProductVersionsRaw;
+      let versionsOrigin: string | undefined;
+      try {
+        const { text, origin } = await source.readText(versionsPath, {
+          accept: 'application/json',
+        });
+        versions = TextProductVersionsRawSchema.parse(JSON.parse(text));
+        versionsText = text;
+        versionsOrigin = origin;
+      } catch (error) {
+        fail(versionsPath, error);
+        continue;
+      }
+
+      const current = versions.currentVersionDirectory;
+      const versionDirectories = currentOnly
+        ? [current]
+        : [...new Set([current, ...(await source.listVersionDirectories(directory))])];
+      const recorded: string[] = [];
+      for (const versionDirectory of versionDirectories) {
+        let complete = true;
+        for (const language of directoryLanguages) {
+          const productPath = `${directory}/${versionDirectory}/${textProductFile(language)}`;
+          try {
+            const { text, origin } = await source.readText(productPath, { accept: 'text/html' });
+            await writeFile(productPath, normalizeTextProduct(text, origin), origin);
+          } catch (error) {
+            fail(productPath, error);
+            complete = false;
+          }
+        }
+        if (complete) {
+          recorded.push(versionDirectory);
+        }
+      }
+
+      if (!recorded.includes(current)) {
+        fail(versionsPath, new Error(`Current version ${current} was not recorded`));
+        continue;
+      }
+      await writeFile(versionsPath, normalizeVersions(versionsText), versionsOrigin);
+      manifest.reports.push({
+        directory,
+        region,
+        languages: directoryLanguages,
+        currentVersionDirectory: current,
+        versionDirectories: recorded.sort((a, b) => b.localeCompare(a)),
+      });
+    }
+  }
+
+  const manifestPath = path.join(outputDir, 'weather-report', 'manifest.json');
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+  await fs.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  debugData(
+    'Recorded %d files of %d reports, %d failures',
+    manifest.files.length,
+    manifest.reports.length,
+    manifest.failures.length
+  );
+  return manifest;
+}
@@ -0,0 +1,863 @@
+import type { ResolvedLocation } from '../schemas/location.js';
+import type { LocalizedLabels } from '../schemas/weather-symbol.js';
+import type { Region } from '../types/meteoswiss.js';
+import { debugData } from '../support/logging.js';
+import { toWeatherPillId } from './weather-pill-data.js';
+
+/**
+ * Error thrown when a location cannot be resolved unambiguously
+ */
+export class LocationResolutionError extends Error {
+  /** Possible matches, empty if nothing matched */
+  public candidates: ResolvedLocation[];
+
+  constructor(message: string, candidates: ResolvedLocation[] = []) {
+    super(message);
+    this.name = 'LocationResolutionError';
+    this.candidates = candidates;
+  }
+}
+
+type Canton = {
+  code: string;
+  names: LocalizedLabels;
+  region: Region;
+  // Name of the capital in LOCALITIES, used for coordinates, station and Weather Pill
+  capital: string;
+};
+
+type Locality = {
+  name: string;
+  aliases?: string[];
+  canton: string;
+  // The first postal code is used for the Weather Pill id
+  postalCodes: string[];
+  latitude: number;
+  longitude: number;
+  // Nearest station of the StationMeta registry, excluding summit stations
+  stationId: string;
+  // Only set where the locality is not covered by the region of its canton
+  region?: Region;
+};
+
+/**
+ * Swiss cantons with their names and the weather report region covering them
+ */
+const CANTONS: readonly Canton[] = [
+  {
+    code: 'ZH',
+    names: { de: 'Zürich', fr: 'Zurich', it: 'Zurigo', en: 'Zurich' },
+    region: 'north',
+    capital: 'Zürich',
+  },
+  {
+    code: 'BE',
+    names: { de: 'Bern', fr: 'Berne', it: 'Berna', en: 'Bern' },
+    region: 'north',
+    capital: 'Bern',
+  },
+  {
+    code: 'LU',
+    names: { de: 'Luzern', fr: 'Lucerne', it: 'Lucerna', en: 'Lucerne' },
+    region: 'north',
+    capital: 'Luzern',
+  },
+  {
+    code: 'UR',
+    names: { de: 'Uri', fr: 'Uri', it: 'Uri', en: 'Uri' },
+    region: 'north',
+    capital: 'Altdorf',
+  },
+  {
+    code: 'SZ',
+    names: { de: 'Schwyz', fr: 'Schwytz', it: 'Svitto', en: 'Schwyz' },
+    region: 'north',
+    capital: 'Schwyz',
+  },
+  {
+    code: 'OW',
+    names: { de: 'Obwalden', fr: 'Obwald', it: 'Obvaldo', en: 'Obwalden' },
+    region: 'north',
+    capital: 'Sarnen',
+  },
+  {
+    code: 'NW',
+    names: { de: 'Nidwalden', fr: 'Nidwald', it: 'Nidvaldo', en: 'Nidwalden' },
+    region: 'north',
+    capital: 'Stans',
+  },
+  {
+    code: 'GL',
+    names: { de: 'Glarus', fr: 'Glaris', it: 'Glarona', en: 'Glarus' },
+    region: 'north',
+    capital: 'Glarus',
+  },
+  {
+    code: 'ZG',
+    names: { de: 'Zug', fr: 'Zoug', it: 'Zugo', en: 'Zug' },
+    region: 'north',
+    capital: 'Zug',
+  },
+  {
+    code: 'FR',
+    names: { de: 'Freiburg', fr: 'Fribourg', it: 'Friburgo', en: 'Fribourg' },
+    region: 'west',
+    capital: 'Fribourg',
+  },
+  {
+    code: 'SO',
+    names: { de: 'Solothurn', fr: 'Soleure', it: 'Soletta', en: 'Solothurn' },
+    region: 'north',
+    capital: 'Solothurn',
+  },
+  {
+    code: 'BS',
+    names: { de: 'Basel-Stadt', fr: 'Bâle-Ville', it: 'Basilea Città', en: 'Basel-City' },
+    region: 'north',
+    capital: 'Basel',
+  },
+  {
+    code: 'BL',
+    names: {
+      de: 'Basel-Landschaft',
+      fr: 'Bâle-Campagne',
+      it: 'Basilea Campagna',
+      en: 'Basel-Country',
+    },
+    region: 'north',
+    capital: 'Liestal',
+  },
+  {
+    code: 'SH',
+    names: { de: 'Schaffhausen', fr: 'Schaffhouse', it: 'Sciaffusa', en: 'Schaffhausen' },
+    region: 'north',
+    capital: 'Schaffhausen',
+  },
+  {
+    code: 'AR',
+    names: {
+      de: 'Appenzell Ausserrhoden',
+      fr: 'Appenzell Rhodes-Extérieures',
+      it: 'Appenzello Esterno',
+      en: 'Appenzell Outer Rhodes',
+    },
+    region: 'north',
+    capital: 'Herisau',
+  },
+  {
+    code: 'AI',
+    names: {
+      de: 'Appenzell Innerrhoden',
+      fr: 'Appenzell Rhodes-Intérieures',
+      it: 'Appenzello Interno',
+      en: 'Appenzell Inner Rhodes',
+    },
+    region: 'north',
+    capital: 'Appenzell',
+  },
+  {
+    code: 'SG',
+    names: { de: 'St. Gallen', fr: 'Saint-Gall', it: 'San Gallo', en: 'St. Gallen' },
+    region: 'north',
+    capital: 'St. Gallen',
+  },
+  {
+    code: 'GR',
+    names: { de: 'Graubünden', fr: 'Grisons', it: 'Grigioni', en: 'Grisons' },
+    region: 'north',
+    capital: 'Chur',
+  },
+  {
+    code: 'AG',
+    names: { de: 'Aargau', fr: 'Argovie', it: 'Argovia', en: 'Aargau' },
+    region: 'north',
+    capital: 'Aarau',
+  },
+  {
+    code: 'TG',
+    names: { de: 'Thurgau', fr: 'Thurgovie', it: 'Turgovia', en: 'Thurgau' },
+    region: 'north',
+    capital: 'Frauenfeld',
+  },
+  {
+    code: 'TI',
+    names: { de: 'Tessin', fr: 'Tessin', it: 'Ticino', en: 'Ticino' },
+    region: 'south',
+    capital: 'Bellinzona',
+  },
+  {
+    code: 'VD',
+    names: { de: 'Waadt', fr: 'Vaud', it: 'Vaud', en: 'Vaud' },
+    region: 'west',
+    capital: 'Lausanne',
+  },
+  {
+    code: 'VS',
+    names: { de: 'Wallis', fr: 'Valais', it: 'Vallese', en: 'Valais' },
+    region: 'west',
+    capital: 'Sion',
+  },
+  {
+    code: 'NE',
+    names: { de: 'Neuenburg', fr: 'Neuchâtel', it: 'Neuchâtel', en: 'Neuchâtel' },
+    region: 'west',
+    capital: 'Neuchâtel',
+  },
+  {
+    code: 'GE',
+    names: { de: 'Genf', fr: 'Genève', it: 'Ginevra', en: 'Geneva' },
+    region: 'west',
+    capital: 'Genève',
+  },
+  {
+    code: 'JU',
+    names: { de: 'Jura', fr: 'Jura', it: 'Giura', en: 'Jura' },
+    region: 'west',
+    capital: 'Delémont',
+  },
+];
+
+/**
+ * Swiss localities with postal codes, coordinates and nearest station
+ */
+const LOCALITIES: readonly Locality[] = [
+  {
+    name: 'Zürich',
+    aliases: ['Zurich', 'Zurigo'],
+    canton: 'ZH',
+    postalCodes: [
+      '8001',
+      '8002',
+      '8003',
+      '8004',
+      '8005',
+      '8006',
+      '8008',
+      '8032',
+      '8037',
+      '8038',
+      '8041',
+      '8044',
+      '8045',
+      '8046',
+      '8047',
+      '8048',
+      '8049',
+      '8050',
+      '8051',
+      '8052',
+      '8053',
+      '8055',
+      '8057',
+      '8064',
+    ],
+    latitude: 47.3769,
+    longitude: 8.5417,
+    stationId: 'SMA',
+  },
+  {
+    name: 'Winterthur',
+    canton: 'ZH',
+    postalCodes: ['8400', '8404', '8405', '8406', '8408', '8409', '8411'],
+    latitude: 47.4988,
+    longitude: 8.7237,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Kloten',
+    canton: 'ZH',
+    postalCodes: ['8302'],
+    latitude: 47.4515,
+    longitude: 8.5849,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Wil',
+    canton: 'ZH',
+    postalCodes: ['8196'],
+    latitude: 47.6048,
+    longitude: 8.505,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Buchs',
+    canton: 'ZH',
+    postalCodes: ['8107'],
+    latitude: 47.4594,
+    longitude: 8.4361,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Basel',
+    aliases: ['Bâle', 'Basilea', 'Basle'],
+    canton: 'BS',
+    postalCodes: ['4001', '4051', '4052', '4053', '4054', '4055', '4056', '4057', '4058', '4059'],
+    latitude: 47.5596,
+    longitude: 7.5886,
+    stationId: 'BAS',
+  },
+  {
+    name: 'Liestal',
+    canton: 'BL',
+    postalCodes: ['4410'],
+    latitude: 47.484,
+    longitude: 7.735,
+    stationId: 'BAS',
+  },
+  {
+    name: 'Bern',
+    aliases: ['Berne', 'Berna'],
+    canton: 'BE',
+    postalCodes: [
+      '3001',
+      '3004',
+      '3005',
+      '3006',
+      '3007',
+      '3008',
+      '3010',
+      '3011',
+      '3012',
+      '3013',
+      '3014',
+      '3015',
+    ],
+    latitude: 46.948,
+    longitude: 7.4474,
+    stationId: 'BER',
+  },
+  {
+    name: 'Biel/Bienne',
+    aliases: ['Biel', 'Bienne'],
+    canton: 'BE',
+    postalCodes: ['2502', '2503', '2504', '2505'],
+    latitude: 47.1368,
+    longitude: 7.2468,
+    stationId: 'BER',
+  },
+  {
+    name: 'Thun',
+    aliases: ['Thoune'],
+    canton: 'BE',
+    postalCodes: ['3600', '3604', '3608'],
+    latitude: 46.758,
+    longitude: 7.628,
+    stationId: 'BER',
+  },
+  {
+    name: 'Interlaken',
+    canton: 'BE',
+    postalCodes: ['3800'],
+    latitude: 46.6863,
+    longitude: 7.8632,
+    stationId: 'BER',
+  },
+  {
+    name: 'Kirchberg',
+    canton: 'BE',
+    postalCodes: ['3422'],
+    latitude: 47.0833,
+    longitude: 7.5833,
+    stationId: 'BER',
+  },
+  {
+    name: 'Luzern',
+    aliases: ['Lucerne', 'Lucerna'],
+    canton: 'LU',
+    postalCodes: ['6003', '6004', '6005', '6006'],
+    latitude: 47.0502,
+    longitude: 8.3093,
+    stationId: 'LUZ',
+  },
+  {
+    name: 'Zug',
+    aliases: ['Zoug', 'Zugo'],
+    canton: 'ZG',
+    postalCodes: ['6300'],
+    latitude: 47.1662,
+    longitude: 8.5155,
+    stationId: 'LUZ',
+  },
+  {
+    name: 'Altdorf',
+    canton: 'UR',
+    postalCodes: ['6460'],
+    latitude: 46.8804,
+    longitude: 8.6444,
+    stationId: 'ALT',
+  },
+  {
+    name: 'Schwyz',
+    canton: 'SZ',
+    postalCodes: ['6430'],
+    latitude: 47.0207,
+    longitude: 8.653,
+    stationId: 'ALT',
+  },
+  {
+    name: 'Sarnen',
+    canton: 'OW',
+    postalCodes: ['6060'],
+    latitude: 46.896,
+    longitude: 8.245,
+    stationId: 'LUZ',
+  },
+  {
+    name: 'Stans',
+    canton: 'NW',
+    postalCodes: ['6370'],
+    latitude: 46.958,
+    longitude: 8.366,
+    stationId: 'LUZ',
+  },
+  {
+    name: 'Glarus',
+    aliases: ['Glaris'],
+    canton: 'GL',
+    postalCodes: ['8750'],
+    latitude: 47.0404,
+    longitude: 9.0672,
+    stationId: 'ALT',
+  },
+  {
+    name: 'Aarau',
+    canton: 'AG',
+    postalCodes: ['5000', '5004'],
+    latitude: 47.3925,
+    longitude: 8.0442,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Buchs',
+    canton: 'AG',
+    postalCodes: ['5033'],
+    latitude: 47.3884,
+    longitude: 8.0825,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Solothurn',
+    aliases: ['Soleure', 'Soletta'],
+    canton: 'SO',
+    postalCodes: ['4500'],
+    latitude: 47.2088,
+    longitude: 7.5323,
+    stationId: 'BER',
+  },
+  {
+    name: 'Schaffhausen',
+    aliases: ['Schaffhouse', 'Sciaffusa'],
+    canton: 'SH',
+    postalCodes: ['8200'],
+    latitude: 47.6959,
+    longitude: 8.6348,
+    stationId: 'KLO',
+  },
+  {
+    name: 'Frauenfeld',
+    canton: 'TG',
+    postalCodes: ['8500'],
+    latitude: 47.5536,
+    longitude: 8.8987,
+    stationId: 'KLO',
+  },
+  {
+    name: 'St. Gallen',
+    aliases: ['St Gallen', 'Sankt Gallen', 'Saint-Gall', 'San Gallo'],
+    canton: 'SG',
+    postalCodes: ['9000', '9008', '9010', '9011', '9012', '9014', '9015', '9016'],
+    latitude: 47.4245,
+    longitude: 9.3767,
+    stationId: 'STG',
+  },
+  {
+    name: 'Wil',
+    canton: 'SG',
+    postalCodes: ['9500'],
+    latitude: 47.4615,
+    longitude: 9.0455,
+    stationId: 'STG',
+  },
+  {
+    name: 'Buchs',
+    canton: 'SG',
+    postalCodes: ['9470'],
+    latitude: 47.1674,
+    longitude: 9.4783,
+    stationId: 'STG',
+  },
+  {
+    name: 'Kirchberg',
+    canton: 'SG',
+    postalCodes: ['9533'],
+    latitude: 47.4116,
+    longitude: 9.0402,
+    stationId: 'STG',
+  },
+  {
+    name: 'Herisau',
+    canton: 'AR',
+    postalCodes: ['9100'],
+    latitude: 47.3862,
+    longitude: 9.2791,
+    stationId: 'STG',
+  },
+  {
+    name: 'Appenzell',
+    canton: 'AI',
+    postalCodes: ['9050'],
+    latitude: 47.3306,
+    longitude: 9.4086,
+    stationId: 'STG',
+  },
+  {
+    name: 'Chur',
+    aliases: ['Coira', 'Cuira'],
+    canton: 'GR',
+    postalCodes: ['7000'],
+    latitude: 46.8508,
+    longitude: 9.532,
+    stationId: 'CHU',
+  },
+  {
+    name: 'Davos',
+    canton: 'GR',
+    postalCodes: ['7270'],
+    latitude: 46.8027,
+    longitude: 9.836,
+    stationId: 'DAV',
+  },
+  {
+    name: 'St. Moritz',
+    aliases: ['St Moritz', 'Sankt Moritz', 'San Murezzan'],
+    canton: 'GR',
+    postalCodes: ['7500'],
+    latitude: 46.4908,
+    longitude: 9.8355,
+    stationId: 'SAM',
+  },
+  {
+    name: 'Poschiavo',
+    canton: 'GR',
+    postalCodes: ['7742'],
+    latitude: 46.3245,
+    longitude: 10.0582,
+    stationId: 'SAM',
+    region: 'south',
+  },
+  {
+    name: 'Mesocco',
+    canton: 'GR',
+    postalCodes: ['6563'],
+    latitude: 46.3939,
+    longitude: 9.2331,
+    stationId: 'MAG',
+    region: 'south',
+  },
+  {
+    name: 'Lugano',
+    canton: 'TI',
+    postalCodes: ['6900'],
+    latitude: 46.0037,
+    longitude: 8.9511,
+    stationId: 'LUG',
+  },
+  {
+    name: 'Locarno',
+    canton: 'TI',
+    postalCodes: ['6600'],
+    latitude: 46.1709,
+    longitude: 8.7995,
+    stationId: 'OTL',
+  },
+  {
+    name: 'Bellinzona',
+    canton: 'TI',
+    postalCodes: ['6500'],
+    latitude: 46.1955,
+    longitude: 9.0238,
+    stationId: 'MAG',
+  },
+  {
+    name: 'Airolo',
+    canton: 'TI',
+    postalCodes: ['6780'],
+    latitude: 46.5286,
+    longitude: 8.6093,
+    stationId: 'AIR',
+  },
+  {
+    name: 'Genève',
+    aliases: ['Geneve', 'Geneva', 'Genf', 'Ginevra'],
+    canton: 'GE',
+    postalCodes: ['1201', '1202', '1203', '1204', '1205', '1206', '1207', '1208', '1209'],
+    latitude: 46.2044,
+    longitude: 6.1432,
+    stationId: 'GVE',
+  },
+  {
+    name: 'Lausanne',
+    aliases: ['Losanna'],
+    canton: 'VD',
+    postalCodes: ['1003', '1004', '1005', '1006', '1007', '1010', '1012', '1018'],
+    latitude: 46.5197,
+    longitude: 6.6323,
+    stationId: 'PUY',
+  },
+  {
+    name: 'Montreux',
+    canton: 'VD',
+    postalCodes: ['1820'],
+    latitude: 46.4312,
+    longitude: 6.9107,
+    stationId: 'PUY',
+  },
+  {
+    name: 'Nyon',
+    canton: 'VD',
+    postalCodes: ['1260'],
+    latitude: 46.3833,
+    longitude: 6.2396,
+    stationId: 'GVE',
+  },
+  {
+    name: 'Yverdon-les-Bains',
+    aliases: ['Yverdon'],
+    canton: 'VD',
+    postalCodes: ['1400'],
+    latitude: 46.7785,
+    longitude: 6.6412,
+    stationId: 'PAY',
+  },
+  {
+    name: 'Fribourg',
+    aliases: ['Freiburg', 'Friburgo'],
+    canton: 'FR',
+    postalCodes: ['1700'],
+    latitude: 46.8065,
+    longitude: 7.162,
+    stationId: 'PAY',
+  },
+  {
+    name: 'Neuchâtel',
+    aliases: ['Neuenburg'],
+    canton: 'NE',
+    postalCodes: ['2000'],
+    latitude: 46.99,
+    longitude: 6.9293,
+    stationId: 'NEU',
+  },
+  {
+    name: 'La Chaux-de-Fonds',
+    canton: 'NE',
+    postalCodes: ['2300'],
+    latitude: 47.1035,
+    longitude: 6.8328,
+    stationId: 'NEU',
+  },
+  {
+    name: 'Delémont',
+    aliases: ['Delsberg'],
+    canton: 'JU',
+    postalCodes: ['2800'],
+    latitude: 47.3653,
+    longitude: 7.3445,
+    stationId: 'BAS',
+  },
+  {
+    name: 'Sion',
+    aliases: ['Sitten'],
+    canton: 'VS',
+    postalCodes: ['1950'],
+    latitude: 46.2331,
+    longitude: 7.3606,
+    stationId: 'SIO',
+  },
+  {
+    name: 'Martigny',
+    canton: 'VS',
+    postalCodes: ['1920'],
+    latitude: 46.1028,
+    longitude: 7.0727,
+    stationId: 'SIO',
+  },
+  {
+    name: 'Brig',
+    aliases: ['Brigue'],
+    canton: 'VS',
+    postalCodes: ['3900'],
+    latitude: 46.3159,
+    longitude: 7.9877,
+    stationId: 'ZER',
+  },
+  {
+    name: 'Zermatt',
+    canton: 'VS',
+    postalCodes: ['3920'],
+    latitude: 46.0207,
+    longitude: 7.7491,
+    stationId: 'ZER',
+  },
+];
+
+/**
+ * Normalizes a name for matching: lower case, without diacritics and punctuation
+ *
+ * @param name - The name as typed by the user
+ * @returns The normalized name
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function findCanton(code: string): Canton {
+  const canton = CANTONS.find((entry) => entry.code === code);
+  if (!canton) {
+    throw new Error(`Unknown canton code ${code}`);
+  }
+  return canton;
+}
+
+function toResolvedLocation(
+  locality: Locality,
+  matchedBy: ResolvedLocation['matchedBy'],
+  postalCode = locality.postalCodes[0] ?? ''
+): ResolvedLocation {
+  return {
+    name: locality.name,
+    canton: locality.canton,
+    region: locality.region ?? findCanton(locality.canton).region,
+    postalCode,
+    weatherPillId: toWeatherPillId(postalCode),
+    stationId: locality.stationId,
+    coordinates: { latitude: locality.latitude, longitude: locality.longitude },
+    matchedBy,
+  };
+}
+
+function localityNames(locality: Locality): string[] {
+  return [locality.name, ...(locality.aliases ?? [])].map(normalizeName);
+}
+
+/**
+ * Picks the single match or throws with the matches as candidates
+ */
+function selectSingleMatch(query: string, matches: ResolvedLocation[]): ResolvedLocation {
+  const [first, ...others] = matches;
+  if (!first) {
+    throw new LocationResolutionError(`Unknown location "${query}"`);
+  }
+  if (others.length > 0) {
+    const candidates = [...matches].sort((a, b) => a.canton.localeCompare(b.canton));
+    throw new LocationResolutionError(
+      `Location "${query}" is ambiguous, candidates: ${candidates
+        .map((candidate) => `${candidate.name} (${candidate.canton}, ${candidate.postalCode})`)
+        .join(
+          ', '
+        )}. Specify the postal code or add the canton, e.g. "${first.name} ${first.canton}"`,
+      candidates
+    );
+  }
+  return first;
+}
+
+/**
+ * Checks whether a name is a locality or a canton of the gazetteer, in any language
+ *
+ * @param name - The name, e.g. "Wallis" or "Lugano"
+ * @returns True if a locality, one of its aliases or a canton has this name
+ */
+export function isKnownPlaceName(name: string): boolean {
+  const normalized = normalizeName(name);
+  return (
+    LOCALITIES.some((locality) => localityNames(locality).includes(normalized)) ||
+    CANTONS.some((canton) =>
+      Object.values(canton.names).some((cantonName) => normalizeName(cantonName) === normalized)
+    )
+  );
+}
+
+/**
+ * Resolves a Swiss locality, postal code or canton to the report region,
+ * the nearest station and the Weather Pill id
+ *
+ * Localities take precedence over cantons of the same name ("Bern" is the city).
+ * A canton code can be appended to disambiguate a locality ("Buchs SG").
+ *
+ * @param query - Locality name, four-digit postal code, canton name or canton code
+ * @returns The resolved location
+ * @throws {LocationResolutionError} If nothing or more than one location matches
+ */
+export function resolveLocation(query: string): ResolvedLocation {
+  const trimmed = query.trim();
+  debugData('Resolving location "%s"', trimmed);
+
+  if (/^\d{4}$/.test(trimmed)) {
+    return selectSingleMatch(
+      trimmed,
+      LOCALITIES.filter((locality) => locality.postalCodes.includes(trimmed)).map((locality) =>
+        toResolvedLocation(locality, 'postal-code', trimmed)
+      )
+    );
+  }
+
+  // "Buchs SG", "Buchs, SG" or "Buchs (SG)"
+  const withCanton = /^(.+?)[\s,(]+([A-Za-z]{2})\)?$/.exec(trimmed);
+  const cantonSuffix = withCanton?.[2]?.toUpperCase();
+  if (withCanton?.[1] && CANTONS.some((canton) => canton.code === cantonSuffix)) {
+    const name = normalizeName(withCanton[1]);
+    const matches = LOCALITIES.filter(
+      (locality) => locality.canton === cantonSuffix && localityNames(locality).includes(name)
+    );
+    if (matches.length > 0) {
+      return selectSingleMatch(
+        trimmed,
+        matches.map((locality) => toResolvedLocation(locality, 'locality'))
+      );
+    }
+  }
+
+  const name = normalizeName(trimmed);
+
+  const localities = LOCALITIES.filter((locality) => localityNames(locality).includes(name));
+  if (localities.length > 0) {
+    return selectSingleMatch(
+      trimmed,
+      localities.map((locality) => toResolvedLocation(locality, 'locality'))
+    );
+  }
+
+  const canton = CANTONS.find(
+    (entry) =>
+      normalizeName(entry.code) === name ||
+      Object.values(entry.names).some((cantonName) => normalizeName(cantonName) === name)
+  );
+  if (canton) {
+    const capital = LOCALITIES.find((locality) => locality.name === canton.capital);
+    if (!capital) {
+      throw new Error(`Capital ${canton.capital} of canton ${canton.code} is not in the gazetteer`);
+    }
+    return {
+      ...toResolvedLocation(capital, 'canton'),
+      name: canton.names.de,
+      region: canton.region,
+    };
+  }
+
+  // Fall back to the start of a name, e.g. "Chaux-de-Fonds" or "Yverdon"
+  return selectSingleMatch(
+    trimmed,
+    name.length < 3
+      ? []
+      : LOCALITIES.filter((locality) =>
+          localityNames(locality).some(
+            (localityName) => localityName.startsWith(name) || localityName.endsWith(` ${name}`)
+          )
+        ).map((locality) => toResolvedLocation(locality, 'locality'))
+  );
+}
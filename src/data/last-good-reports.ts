@@ -0,0 +1,200 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { WeatherReportSchema } from '../schemas/weather-report.js';
+import type { WeatherReport } from '../schemas/weather-report.js';
+import { debugData } from '../support/logging.js';
+
+// Default directory of the persisted reports, kept across restarts of the server
+export const DEFAULT_LAST_GOOD_REPORTS_DIR = path.join(
+  os.tmpdir(),
+  'mcp-server-meteoswiss',
+  'last-good-reports'
+);
+
+// Longest time the persisted fetch time of an unchanged report lags behind the last fetch
+export const DEFAULT_PERSIST_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The last report fetched successfully for a region and language
+ */
+export type LastGoodReport = {
+  report: WeatherReport;
+  /** When the report was last fetched successfully */
+  fetchedAt: Date;
+};
+
+/**
+ * Keeps the last good weather report of every region and language,
+ * in memory and, if a directory is configured, on disk
+ */
+export class LastGoodReportStore {
+  private reports = new Map<string, LastGoodReport>();
+  // Version and fetch time of the persisted reports
+  private persisted = new Map<string, { version?: string; fetchedAt: Date }>();
+
+  /**
+   * @param directory - Directory the reports are persisted to, empty to keep them in memory only
+   * @param persistIntervalMs - Interval in which an unchanged report is persisted again to
+   *   update its fetch time
+   */
+  constructor(
+    private directory: string = DEFAULT_LAST_GOOD_REPORTS_DIR,
+    private persistIntervalMs: number = DEFAULT_PERSIST_INTERVAL_MS
+  ) {}
+
+  /**
+   * Changes the directory the reports are persisted to
+   */
+  configure(directory: string): void {
+    debugData('Last good reports directory: %s', directory || '(memory only)');
+    this.directory = directory;
+    this.persisted.clear();
+  }
+
+  /**
+   * Records a report that was fetched successfully
+   *
+   * A report of the persisted version is only persisted again once the persist interval has
+   * passed, so after a restart the fetch time lags behind by at most that interval.
+   * Persistence failures are logged and do not fail the request.
+   *
+   * @param report - The weather report
+   */
+  async save(report: WeatherReport): Promise<void> {
+    const key = reportKey(report.region, report.language);
+    // Loads the persisted report after a restart
+    await this.load(report.region, report.language);
+    const entry = { report: withoutFallbackFields(report), fetchedAt: new Date() };
+    this.reports.set(key, entry);
+    if (!this.directory) {
+      return;
+    }
+    const persisted = this.persisted.get(key);
+    if (
+      report.version &&
+      persisted?.version === report.version &&
+      entry.fetchedAt.getTime() - persisted.fetchedAt.getTime() < this.persistIntervalMs
+    ) {
+      debugData('Last good report %s was persisted recently', report.version);
+      return;
+    }
+
+    const filePath = this.filePath(report.region, report.language);
+    // Write to a temporary file first, so a concurrent read never sees a partial report
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify({ fetchedAt: entry.fetchedAt.toISOString(), report: entry.report })
+      );
+      await fs.rename(tempPath, filePath);
+      this.persisted.set(key, { version: report.version, fetchedAt: entry.fetchedAt });
+    } catch (error) {
+      debugData('Failed to persist last good report to %s: %O', filePath, error);
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Gets the last good report of a region and language, from memory or from disk
+   *
+   * @param region - The region of the report
+   * @param language - The language of the report
+   * @returns The report and when it was fetched, or undefined if there is none
+   */
+  async load(region: string, language: string): Promise<LastGoodReport | undefined> {
+    const cached = this.reports.get(reportKey(region, language));
+    if (cached || !this.directory) {
+      return cached;
+    }
+
+    const filePath = this.filePath(region, language);
+    try {
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      const entry = {
+        report: WeatherReportSchema.parse(stored.report),
+        fetchedAt: new Date(stored.fetchedAt),
+      };
+      if (Number.isNaN(entry.fetchedAt.getTime())) {
+        throw new Error(`Invalid fetchedAt: ${stored.fetchedAt}`);
+      }
+      this.reports.set(reportKey(region, language), entry);
+      this.persisted.set(reportKey(region, language), {
+        version: entry.report.version,
+        fetchedAt: entry.fetchedAt,
+      });
+      return entry;
+    } catch (error) {
+      debugData('No last good report in %s: %O', filePath, error);
+      return undefined;
+    }
+  }
+
+  private filePath(region: string, language: string): string {
+    return path.join(this.directory, `weather-report-${region}-${language}.json`);
+  }
+}
+
+/**
+ * Store shared by all sessions of the server
+ */
+export const lastGoodReports = new LastGoodReportStore();
+
+/**
+ * Fetches the current weather report, falling back to the last good one if the upstream fails
+ *
+ * @param region - The region of the report
+ * @param language - The language of the report
+ * @param fetchReport - Fetches the current report from the upstream
+ * @param store - The store of the last good reports
+ * @returns The current report, or the last good report marked as stale
+ * @throws {Error} The upstream error if there is no last good report
+ */
+export async function withLastGoodReport(
+  region: string,
+  language: string,
+  fetchReport: () => Promise<WeatherReport>,
+  store: LastGoodReportStore = lastGoodReports
+): Promise<WeatherReport> {
+  let report: WeatherReport;
+  try {
+    report = await fetchReport();
+  } catch (error) {
+    const lastGood = await store.load(region, language);
+    if (!lastGood) {
+      throw error;
+    }
+    const upstreamError = error instanceof Error ? error.message : String(error);
+    const ageSeconds = Math.round((Date.now() - lastGood.fetchedAt.getTime()) / 1000);
+    debugData(
+      'Upstream failed for %s in %s, serving report %s from %ds ago: %s',
+      region,
+      language,
+      lastGood.report.version,
+      ageSeconds,
+      upstreamError
+    );
+    return { ...lastGood.report, stale: true, ageSeconds, upstreamError };
+  }
+
+  await store.save(report);
+  return report;
+}
+
+function reportKey(region: string, language: string): string {
+  return `${region}/${language}`;
+}
+
+function withoutFallbackFields(report: WeatherReport): WeatherReport {
+  const {
+    stale: _stale,
+    ageSeconds: _ageSeconds,
+    upstreamError: _upstreamError,
+    cache: _cache,
+    ...rest
+  } = report;
+  return rest;
+}
@@ -0,0 +1,162 @@
+import { ChartDataRawSchema } from '../schemas/measured-values.js';
+import type {
+  ChartDataRaw,
+  Measurement,
+  MeasurementParameter,
+  StationMeasurements,
+} from '../schemas/measured-values.js';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import {
+  fetchCurrentVersionDirectory,
+  fetchProductJson,
+  ProductNotFoundError,
+} from './product-output.js';
+
+// Product directory of the measured values below the product output root
+const MEASURED_VALUES_PRODUCT = 'measured-values';
+
+/**
+ * Units of the measurement parameters, used when the ChartData file does not state one
+ */
+export const PARAMETER_UNITS: Record<MeasurementParameter, string> = {
+  temperature: '°C',
+  precipitation: 'mm',
+  wind: 'km/h',
+  humidity: '%',
+  sunshine: 'min',
+  snow: 'cm',
+  pressure: 'hPa',
+  radiation: 'W/m²',
+};
+
+/**
+ * Fetches the hourly ChartData series of one station and parameter
+ *
+ * @param stationCode - The station code (e.g. GVE)
+ * @param parameter - The ChartData parameter directory (e.g. temperature)
+ * @param source - The data source to read the data from
+ * @returns The validated raw ChartData
+ * @throws {ProductNotFoundError} If the parameter is not measured at the station
+ */
+export async function fetchHourlyChartData(
+  stationCode: string,
+  parameter: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<ChartDataRaw> {
+  const currentVersionDir = await fetchCurrentVersionDirectory(MEASURED_VALUES_PRODUCT, source);
+  const raw = await fetchProductJson(
+    `${MEASURED_VALUES_PRODUCT}/${currentVersionDir}/chartData/${parameter}/hour/${stationCode}.json`,
+    source
+  );
+  debugData('ChartData %s/%s loaded from %s', parameter, stationCode, currentVersionDir);
+  return ChartDataRawSchema.parse(raw);
+}
+
+/**
+ * Converts ChartData `[timestamp, value]` pairs into measurements
+ *
+ * @param data - The raw data pairs, oldest first
+ * @returns The measurements with ISO 8601 timestamps
+ */
+export function toMeasurements(data: ChartDataRaw['series'][number]['data']): Measurement[] {
+  return data.map(([timestamp, value]) => ({
+    timestamp: new Date(timestamp).toISOString(),
+    value,
+  }));
+}
+
+/**
+ * Finds the most recent measurement that has a value
+ *
+ * @param measurements - The measurements, oldest first
+ * @returns The latest measurement with a value, or null if there is none
+ */
+export function findLatestMeasurement(measurements: Measurement[]): Measurement | null {
+  for (let index = measurements.length - 1; index >= 0; index--) {
+    const measurement = measurements[index];
+    if (measurement && measurement.value !== null) {
+      return measurement;
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the latest measured values and hourly series of a station
+ *
+ * @param stationCode - The station code (e.g. GVE), case-insensitive
+ * @param parameters - The parameters to load
+ * @param hours - The number of most recent hourly values to include per series
+ * @param source - The data source to read the measurements from
+ * @returns The station measurements; parameters without data are listed as unavailable
+ */
+export async function getStationMeasurements(
+  stationCode: string,
+  parameters: MeasurementParameter[],
+  hours: number,
+  source: DataSource = getDefaultDataSource()
+): Promise<StationMeasurements> {
+  const code = stationCode.toUpperCase();
+
+  try {
+    const results = await Promise.all(
+      parameters.map(async (parameter) => {
+        try {
+          return { parameter, chartData: await fetchHourlyChartData(code, parameter, source) };
+        } catch (error) {
+          if (error instanceof ProductNotFoundError) {
+            debugData('No %s data for station %s', parameter, code);
+            return { parameter, chartData: null };
+          }
+          throw error;
+        }
+      })
+    );
+
+    const measurements: StationMeasurements['measurements'] = [];
+    const unavailableParameters: MeasurementParameter[] = [];
+
+    for (const { parameter, chartData } of results) {
+      if (!chartData) {
+        unavailableParameters.push(parameter);
+        continue;
+      }
+
+      measurements.push({
+        parameter,
+        unit: chartData.unit ?? PARAMETER_UNITS[parameter],
+        series: chartData.series.map((series) => {
+          const all = toMeasurements(series.data);
+          return {
+            name: series.name,
+            latest: findLatestMeasurement(all),
+            hourly: all.slice(-hours),
+          };
+        }),
+      });
+    }
+
+    if (measurements.length === 0) {
+      throw new Error(`No measurements found for station ${code}`);
+    }
+
+    return {
+      stationCode: code,
+      measurements,
+      unavailableParameters,
+      source: 'meteoswiss',
+    };
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch measurements for station ${code}: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
+    throw new Error(
+      `Failed to fetch measurements for station ${code}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import type { NationalOverview, RegionalDayForecast } from '../schemas/national-overview.js';
+import type { WeatherReport } from '../schemas/weather-report.js';
+import { debugData } from '../support/logging.js';
+import { RegionSchema } from '../types/meteoswiss.js';
+import type { Language, Region } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { getLatestWeatherReport } from './weather-report-data.js';
+
+/**
+ * Outcome of loading the report of one region
+ */
+export type RegionalReportOutcome =
+  | { region: Region; report: WeatherReport }
+  | { region: Region; error: string };
+
+/**
+ * Gets the current weather reports of all regions as one overview
+ *
+ * The reports are loaded concurrently. A region whose report fails is listed in the
+ * errors of the overview; only if all regions fail an error is thrown. A region served
+ * from its last good report is marked stale in the reports.
+ *
+ * @param language - The language of the reports (de, fr, it, en)
+ * @param source - The data source to read the reports from
+ * @returns The overview of all regions, aligned by day
+ */
+export async function getNationalOverview(
+  language: Language,
+  source: DataSource = getDefaultDataSource()
+): Promise<NationalOverview> {
+  const regions = RegionSchema.options;
+  const results = await Promise.allSettled(
+    regions.map((region) => getLatestWeatherReport(region, language, source))
+  );
+
+  const outcomes = regions.map((region, index): RegionalReportOutcome => {
+    const result = results[index];
+    if (result?.status === 'fulfilled') {
+      return { region, report: result.value };
+    }
+    const reason: unknown = result?.reason;
+    debugData('Weather report for %s failed: %O', region, reason);
+    return { region, error: reason instanceof Error ? reason.message : String(reason) };
+  });
+
+  if (outcomes.every((outcome) => 'error' in outcome)) {
+    throw new Error(
+      `Failed to fetch weather reports for all regions: ${outcomes
+        .map((outcome) => ('error' in outcome ? outcome.error : ''))
+        .join('; ')}`
+    );
+  }
+
+  return combineRegionalReports(language, outcomes);
+}
+
+/**
+ * Combines the reports of the regions into one overview
+ *
+ * Days are aligned by date, or by their label for undated days, and sorted by date.
+ *
+ * @param language - The language of the reports
+ * @param outcomes - The loaded reports or errors per region
+ * @returns The overview of all regions
+ */
+export function combineRegionalReports(
+  language: Language,
+  outcomes: RegionalReportOutcome[]
+): NationalOverview {
+  const days = new Map<string, NationalOverview['days'][number]>();
+  const reports: NationalOverview['reports'] = [];
+  const errors: NationalOverview['errors'] = [];
+
+  for (const outcome of outcomes) {
+    if ('error' in outcome) {
+      errors.push({ region: outcome.region, message: outcome.error });
+      continue;
+    }
+
+    const { region, report } = outcome;
+    reports.push({
+      region,
+      title: report.title,
+      updatedAt: report.updatedAt,
+      ...(report.issuedAt && { issuedAt: report.issuedAt }),
+      ...(report.version && { version: report.version }),
+      ...(report.stale && { stale: true }),
+      ...(report.ageSeconds !== undefined && { ageSeconds: report.ageSeconds }),
+      ...(report.upstreamError && { upstreamError: report.upstreamError }),
+    });
+
+    for (const { date, ...forecast } of report.forecast) {
+      const key = date ?? forecast.day.trim().toLowerCase();
+      const day = days.get(key) ?? { ...(date && { date }), day: forecast.day, regions: {} };
+      day.regions[region] = forecast satisfies RegionalDayForecast;
+      days.set(key, day);
+    }
+  }
+
+  // Undated days keep the report order
+  const alignedDays = [...days.values()];
+  if (alignedDays.every((day) => day.date)) {
+    alignedDays.sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''));
+  }
+
+  return {
+    language,
+    reports,
+    days: alignedDays,
+    errors,
+    source: 'meteoswiss',
+  };
+}
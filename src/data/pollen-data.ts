@@ -0,0 +1,206 @@
+import type { PollenIntensity, PollenMeasurements, PollenTaxon } from '../schemas/pollen.js';
+import type { LocalizedLabels } from '../schemas/weather-symbol.js';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import type { Language } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import {
+  fetchHourlyChartData,
+  findLatestMeasurement,
+  toMeasurements,
+} from './measured-values-data.js';
+import { ProductNotFoundError } from './product-output.js';
+
+// Unit of the pollen concentrations (pollen grains per cubic meter of air)
+const POLLEN_UNIT = 'No/m³';
+
+// Number of hourly values averaged for the intensity class
+const DAILY_MEAN_HOURS = 24;
+
+/**
+ * Stations of the MeteoSwiss pollen network
+ */
+export const POLLEN_STATIONS: Record<string, { name: string; canton: string }> = {
+  PBS: { name: 'Basel', canton: 'BS' },
+  PBE: { name: 'Bern', canton: 'BE' },
+  PBU: { name: 'Buchs SG', canton: 'SG' },
+  PCF: { name: 'La Chaux-de-Fonds', canton: 'NE' },
+  PDS: { name: 'Davos', canton: 'GR' },
+  PGE: { name: 'Genève', canton: 'GE' },
+  PLS: { name: 'Lausanne', canton: 'VD' },
+  PLO: { name: 'Locarno', canton: 'TI' },
+  PLU: { name: 'Lugano', canton: 'TI' },
+  PLZ: { name: 'Luzern', canton: 'LU' },
+  PMU: { name: 'Münsterlingen', canton: 'TG' },
+  PNE: { name: 'Neuchâtel', canton: 'NE' },
+  PVI: { name: 'Visp', canton: 'VS' },
+  PZH: { name: 'Zürich', canton: 'ZH' },
+};
+
+type TaxonDefinition = {
+  labels: LocalizedLabels;
+  // Lower bounds of the classes weak, moderate, strong and very strong (daily mean, No/m³)
+  thresholds: [number, number, number, number];
+};
+
+/**
+ * Pollen taxa with labels and the official intensity class thresholds
+ */
+const TAXA: Record<PollenTaxon, TaxonDefinition> = {
+  hazel: {
+    labels: { de: 'Hasel', fr: 'Noisetier', it: 'Nocciolo', en: 'Hazel' },
+    thresholds: [1, 10, 70, 250],
+  },
+  alder: {
+    labels: { de: 'Erle', fr: 'Aulne', it: 'Ontano', en: 'Alder' },
+    thresholds: [1, 10, 70, 250],
+  },
+  ash: {
+    labels: { de: 'Esche', fr: 'Frêne', it: 'Frassino', en: 'Ash' },
+    thresholds: [1, 10, 70, 250],
+  },
+  birch: {
+    labels: { de: 'Birke', fr: 'Bouleau', it: 'Betulla', en: 'Birch' },
+    thresholds: [1, 10, 70, 300],
+  },
+  beech: {
+    labels: { de: 'Buche', fr: 'Hêtre', it: 'Faggio', en: 'Beech' },
+    thresholds: [1, 10, 70, 250],
+  },
+  oak: {
+    labels: { de: 'Eiche', fr: 'Chêne', it: 'Quercia', en: 'Oak' },
+    thresholds: [1, 10, 70, 250],
+  },
+  grasses: {
+    labels: { de: 'Gräser', fr: 'Graminées', it: 'Graminacee', en: 'Grasses' },
+    thresholds: [1, 20, 50, 150],
+  },
+  ragweed: {
+    labels: { de: 'Ambrosia', fr: 'Ambroisie', it: 'Ambrosia', en: 'Ragweed' },
+    thresholds: [1, 6, 11, 40],
+  },
+  mugwort: {
+    labels: { de: 'Beifuss', fr: 'Armoise', it: 'Artemisia', en: 'Mugwort' },
+    thresholds: [1, 6, 15, 50],
+  },
+};
+
+/**
+ * Labels of the intensity classes
+ */
+const INTENSITY_LABELS: Record<PollenIntensity, LocalizedLabels> = {
+  none: { de: 'Keine', fr: 'Nul', it: 'Nessuno', en: 'None' },
+  weak: { de: 'Schwach', fr: 'Faible', it: 'Debole', en: 'Weak' },
+  moderate: { de: 'Mässig', fr: 'Moyen', it: 'Medio', en: 'Moderate' },
+  strong: { de: 'Stark', fr: 'Fort', it: 'Forte', en: 'Strong' },
+  'very-strong': { de: 'Sehr stark', fr: 'Très fort', it: 'Molto forte', en: 'Very strong' },
+};
+
+/**
+ * Classifies a daily mean pollen concentration into the official intensity class
+ *
+ * @param taxon - The pollen taxon
+ * @param dailyMean - The daily mean concentration in No/m³
+ * @returns The intensity class
+ */
+export function classifyPollenIntensity(taxon: PollenTaxon, dailyMean: number): PollenIntensity {
+  const [weak, moderate, strong, veryStrong] = TAXA[taxon].thresholds;
+  if (dailyMean >= veryStrong) return 'very-strong';
+  if (dailyMean >= strong) return 'strong';
+  if (dailyMean >= moderate) return 'moderate';
+  if (dailyMean >= weak) return 'weak';
+  return 'none';
+}
+
+/**
+ * Gets the current pollen concentrations of a pollen station
+ *
+ * @param stationCode - The pollen station code (e.g. PZH), case-insensitive
+ * @param taxa - The taxa to load
+ * @param language - The language of the labels
+ * @param source - The data source to read the measurements from
+ * @returns The pollen measurements; taxa without data are listed as unavailable
+ */
+export async function getPollenMeasurements(
+  stationCode: string,
+  taxa: PollenTaxon[],
+  language: Language,
+  source: DataSource = getDefaultDataSource()
+): Promise<PollenMeasurements> {
+  const code = stationCode.toUpperCase();
+
+  try {
+    const station = POLLEN_STATIONS[code];
+    if (!station) {
+      throw new Error(
+        `Unknown pollen station ${code}, expected one of ${Object.keys(POLLEN_STATIONS).join(', ')}`
+      );
+    }
+
+    const results = await Promise.all(
+      taxa.map(async (taxon) => {
+        try {
+          return { taxon, chartData: await fetchHourlyChartData(code, `pollen-${taxon}`, source) };
+        } catch (error) {
+          if (error instanceof ProductNotFoundError) {
+            debugData('No %s pollen data for station %s', taxon, code);
+            return { taxon, chartData: null };
+          }
+          throw error;
+        }
+      })
+    );
+
+    const measurements: PollenMeasurements['taxa'] = [];
+    const unavailableTaxa: PollenTaxon[] = [];
+
+    for (const { taxon, chartData } of results) {
+      const all = chartData?.series[0] ? toMeasurements(chartData.series[0].data) : [];
+      const latest = findLatestMeasurement(all);
+      const values = all
+        .slice(-DAILY_MEAN_HOURS)
+        .flatMap((measurement) => (measurement.value === null ? [] : [measurement.value]));
+      if (!latest || values.length === 0) {
+        unavailableTaxa.push(taxon);
+        continue;
+      }
+
+      const dailyMean =
+        Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+      const intensity = classifyPollenIntensity(taxon, dailyMean);
+      measurements.push({
+        taxon,
+        label: TAXA[taxon].labels[language],
+        latest,
+        dailyMean,
+        intensity,
+        intensityLabel: INTENSITY_LABELS[intensity][language],
+      });
+    }
+
+    if (measurements.length === 0) {
+      throw new Error(`No pollen measurements found for station ${code}`);
+    }
+
+    return {
+      stationCode: code,
+      stationName: station.name,
+      canton: station.canton,
+      language,
+      unit: POLLEN_UNIT,
+      taxa: measurements,
+      unavailableTaxa,
+      source: 'meteoswiss',
+    };
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch pollen measurements for station ${code}: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
+    throw new Error(
+      `Failed to fetch pollen measurements for station ${code}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
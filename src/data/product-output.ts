@@ -0,0 +1,176 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import { isRetryable, resolveRetryPolicy } from '../support/retry-policy.js';
+import type { DataSource } from './data-source.js';
+
+// Base URL for the MeteoSwiss product output (all JSON products live below it)
+export const PRODUCT_OUTPUT_BASE_URL = 'https://www.meteoswiss.admin.ch/product/output';
+
+/**
+ * Origins the product output is requested from
+ */
+export type UpstreamOrigins = {
+  /** Base URL of the product output, e.g. a caching mirror in front of MeteoSwiss */
+  baseUrl: string;
+  /** Base URLs tried in turn when the base URL and the mirrors before them fail */
+  mirrors: string[];
+};
+
+let upstreamOrigins: UpstreamOrigins = { baseUrl: PRODUCT_OUTPUT_BASE_URL, mirrors: [] };
+
+// Test fixtures have the layout of the product output, for the fixture data source
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// Look for test fixtures in both development and production paths
+const TEST_FIXTURES_DEV_PATH = path.resolve(__dirname, '../../test/__fixtures__');
+const TEST_FIXTURES_PROD_PATH = path.resolve(__dirname, '../test/__fixtures__');
+// Try the development path first, then fall back to production path
+export const TEST_FIXTURES_ROOT = existsSync(TEST_FIXTURES_DEV_PATH)
+  ? TEST_FIXTURES_DEV_PATH
+  : TEST_FIXTURES_PROD_PATH;
+
+// Version directories are named after their publication time in UTC, e.g. version__20250426_1508
+const VERSION_DIRECTORY_PATTERN = /^version__(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})$/;
+
+/**
+ * Error thrown when a file does not exist in the product output,
+ * e.g. a parameter that is not measured at a station
+ */
+export class ProductNotFoundError extends Error {
+  /** Path relative to the product output root */
+  public productPath: string;
+
+  constructor(message: string, productPath: string) {
+    super(message);
+    this.name = 'ProductNotFoundError';
+    this.productPath = productPath;
+  }
+}
+
+/**
+ * Changes the origins of the product output, e.g. to the ones configured in the environment
+ */
+export function configureUpstreamOrigins(origins: Partial<UpstreamOrigins>): void {
+  upstreamOrigins = { ...upstreamOrigins, ...origins };
+  debugData('Upstream origins: %O', upstreamOrigins);
+}
+
+/**
+ * Gets the origins of the product output in the order they are tried
+ *
+ * @param origins - The origins, defaults to the configured ones
+ * @returns The base URL followed by the mirrors, without trailing slashes
+ */
+export function getUpstreamOrigins(origins: UpstreamOrigins = upstreamOrigins): string[] {
+  return [origins.baseUrl, ...origins.mirrors].map((origin) => origin.replace(/\/+$/, ''));
+}
+
+/**
+ * Requests a file of the product output from its origins in turn
+ *
+ * The next origin is tried when an origin is unavailable, but not for client errors like
+ * 404, which every origin would answer the same. All origins share one deadline: the
+ * requests get it to stop retrying, and no further origin is tried after it.
+ *
+ * @param productPath - Path relative to the product output root
+ * @param request - Requests the file at a URL, retrying until the deadline at most
+ * @param origins - The origins in the order they are tried, defaults to the configured ones
+ * @param deadline - Time in milliseconds since the epoch, defaults to the deadline of the
+ *   configured retry policy from now
+ * @returns The result of the first origin that served the file, and that origin
+ * @throws {Error} The error of the last origin tried if all origins fail
+ */
+export async function fetchFromOrigins<T>(
+  productPath: string,
+  request: (url: string, deadline: number) => Promise<T>,
+  origins: string[] = getUpstreamOrigins(),
+  deadline: number = Date.now() + resolveRetryPolicy().deadlineMs
+): Promise<{ value: T; origin: string }> {
+  let lastError: unknown;
+  for (const origin of origins) {
+    if (lastError !== undefined && Date.now() >= deadline) {
+      debugData('Not trying origin %s for %s, past the deadline', origin, productPath);
+      break;
+    }
+    try {
+      return { value: await request(`${origin}/${productPath}`, deadline), origin };
+    } catch (error) {
+      if (error instanceof HttpRequestError && !isRetryable(error.statusCode)) {
+        throw error;
+      }
+      debugData('Origin %s failed for %s: %O', origin, productPath, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Fetches a JSON file from the MeteoSwiss product output
+ *
+ * @param productPath - Path relative to the product output root (e.g. `weather-pill/versions.json`)
+ * @param source - The data source to read the file from
+ * @returns The parsed JSON data
+ * @throws {ProductNotFoundError} If the file does not exist
+ */
+export async function fetchProductJson<T = unknown>(
+  productPath: string,
+  source: DataSource
+): Promise<T> {
+  let text;
+  try {
+    ({ text } = await source.readText(productPath, { accept: 'application/json' }));
+  } catch (error) {
+    if (error instanceof HttpRequestError && error.statusCode === 404) {
+      throw new ProductNotFoundError(`Not found: ${productPath}`, productPath);
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${productPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Gets the current version directory of a product from its `versions.json`
+ *
+ * @param productDir - Product directory relative to the product output root (e.g. `weather-pill`)
+ * @param source - The data source to read the `versions.json` from
+ * @returns The name of the current version directory (e.g. `version__20250426_1500`)
+ */
+export async function fetchCurrentVersionDirectory(
+  productDir: string,
+  source: DataSource
+): Promise<string> {
+  const versions = await fetchProductJson<{ currentVersionDirectory?: string }>(
+    `${productDir}/versions.json`,
+    source
+  );
+  if (!versions.currentVersionDirectory) {
+    throw new Error(`No currentVersionDirectory in ${productDir}/versions.json`);
+  }
+  debugData('Current version directory for %s: %s', productDir, versions.currentVersionDirectory);
+  return versions.currentVersionDirectory;
+}
+
+/**
+ * Gets the publication time of a version directory from its name
+ *
+ * @param versionDirectory - The version directory name (e.g. `version__20250426_1508`)
+ * @returns The publication time, or undefined if the name is not a version directory
+ */
+export function parseVersionDirectory(versionDirectory: string): Date | undefined {
+  const match = VERSION_DIRECTORY_PATTERN.exec(versionDirectory);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:00Z`);
+}
@@ -0,0 +1,144 @@
+import { StationMetaRawSchema } from '../schemas/stations.js';
+import type { NearbyStation, Station } from '../schemas/stations.js';
+import type { MeasurementParameter } from '../schemas/measured-values.js';
+import { distanceKm } from '../support/geo.js';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { fetchCurrentVersionDirectory, fetchProductJson } from './product-output.js';
+
+// Product directory of the measured values (the station metadata is published alongside them)
+const MEASURED_VALUES_PRODUCT = 'measured-values';
+
+// Stations of the most recently loaded version directory of each data source
+const stationCache = new WeakMap<DataSource, { versionDirectory: string; stations: Station[] }>();
+
+/**
+ * Options for the nearest station search
+ */
+export interface FindNearestStationsOptions {
+  /** Only consider stations that measure this parameter */
+  parameter?: MeasurementParameter;
+  /** Altitude of the searched location in meters */
+  altitude?: number;
+  /** Only consider stations within this many meters of `altitude` */
+  maxAltitudeDiff?: number;
+  /** Maximum number of stations to return */
+  limit?: number;
+}
+
+/**
+ * Loads the station registry from the StationMeta data
+ * The registry is kept in memory until a new version directory is published.
+ *
+ * @param source - The data source to read the station metadata from
+ * @returns All stations, sorted by id
+ */
+export async function loadStations(
+  source: DataSource = getDefaultDataSource()
+): Promise<Station[]> {
+  try {
+    const currentVersionDir = await fetchCurrentVersionDirectory(MEASURED_VALUES_PRODUCT, source);
+    const cached = stationCache.get(source);
+    if (cached?.versionDirectory === currentVersionDir) {
+      return cached.stations;
+    }
+
+    const raw = StationMetaRawSchema.parse(
+      await fetchProductJson(
+        `${MEASURED_VALUES_PRODUCT}/${currentVersionDir}/stationMeta/stationMeta.json`,
+        source
+      )
+    );
+    const stations = raw.stations
+      .map((station) => ({
+        id: station.id,
+        name: station.name,
+        canton: station.canton,
+        coordinates: { latitude: station.lat, longitude: station.lon },
+        altitude: station.altitude,
+        parameters: station.parameters,
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    debugData('Loaded %d stations from %s', stations.length, currentVersionDir);
+    stationCache.set(source, { versionDirectory: currentVersionDir, stations });
+    return stations;
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch station metadata: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
+    throw new Error(
+      `Failed to fetch station metadata: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Lists the stations of the registry
+ *
+ * @param filter - Optional parameter and canton filters
+ * @param source - The data source to read the station metadata from
+ * @returns The matching stations, sorted by id
+ */
+export async function listStations(
+  filter: { parameter?: MeasurementParameter; canton?: string } = {},
+  source: DataSource = getDefaultDataSource()
+): Promise<Station[]> {
+  const stations = await loadStations(source);
+  const canton = filter.canton?.toUpperCase();
+
+  return stations.filter(
+    (station) =>
+      (!filter.parameter || station.parameters.includes(filter.parameter)) &&
+      (!canton || station.canton === canton)
+  );
+}
+
+/**
+ * Finds the stations closest to a location
+ *
+ * @param latitude - Latitude of the location (WGS84)
+ * @param longitude - Longitude of the location (WGS84)
+ * @param options - Parameter, altitude and result count constraints
+ * @param source - The data source to read the station metadata from
+ * @returns The nearest stations, closest first
+ */
+export async function findNearestStations(
+  latitude: number,
+  longitude: number,
+  options: FindNearestStationsOptions = {},
+  source: DataSource = getDefaultDataSource()
+): Promise<NearbyStation[]> {
+  const { parameter, altitude, maxAltitudeDiff, limit = 3 } = options;
+  if (maxAltitudeDiff !== undefined && altitude === undefined) {
+    throw new Error('maxAltitudeDiff requires the altitude of the location');
+  }
+
+  const stations = await listStations({ parameter }, source);
+
+  return stations
+    .map((station) => ({
+      ...station,
+      distanceKm:
+        Math.round(
+          distanceKm(
+            latitude,
+            longitude,
+            station.coordinates.latitude,
+            station.coordinates.longitude
+          ) * 10
+        ) / 10,
+      ...(altitude !== undefined && { altitudeDifference: station.altitude - altitude }),
+    }))
+    .filter(
+      (station) =>
+        maxAltitudeDiff === undefined ||
+        Math.abs(station.altitudeDifference ?? 0) <= maxAltitudeDiff
+    )
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+}
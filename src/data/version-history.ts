@@ -0,0 +1,99 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { debugData } from '../support/logging.js';
+
+// Default directory of the persisted version histories, kept across restarts of the server
+export const DEFAULT_VERSION_HISTORY_DIR = path.join(
+  os.tmpdir(),
+  'mcp-server-meteoswiss',
+  'version-history'
+);
+
+const VersionHistoryFileSchema = z.object({ versionDirectories: z.array(z.string()) });
+
+/**
+ * Keeps the version directories named as current by the versions.json of every product
+ * directory, in memory and, if a directory is configured, on disk
+ *
+ * The product output cannot be listed, so over HTTP these are the only earlier versions
+ * known. Persisting them keeps earlier versions selectable after a restart.
+ */
+export class VersionHistory {
+  private versions = new Map<string, Set<string>>();
+
+  /**
+   * @param directory - Directory the histories are persisted to, empty to keep them in memory only
+   */
+  constructor(private directory: string = '') {}
+
+  /**
+   * Records a version directory named as current
+   *
+   * Only new versions are persisted. Persistence failures are logged and do not fail the request.
+   *
+   * @param productDir - Product directory relative to the product output root
+   * @param versionDirectory - The version directory
+   */
+  async record(productDir: string, versionDirectory: string): Promise<void> {
+    const versions = await this.load(productDir);
+    if (versions.has(versionDirectory)) {
+      return;
+    }
+    versions.add(versionDirectory);
+    if (!this.directory) {
+      return;
+    }
+
+    const filePath = this.filePath(productDir);
+    // Write to a temporary file first, so a concurrent read never sees a partial history
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify({ versionDirectories: [...versions].sort() }));
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      debugData('Failed to persist version history to %s: %O', filePath, error);
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Lists the version directories recorded for a product directory
+   *
+   * @param productDir - Product directory relative to the product output root
+   * @returns The recorded version directories, oldest first
+   */
+  async list(productDir: string): Promise<string[]> {
+    return [...(await this.load(productDir))].sort();
+  }
+
+  private async load(productDir: string): Promise<Set<string>> {
+    const cached = this.versions.get(productDir);
+    if (cached) {
+      return cached;
+    }
+
+    let stored: string[] = [];
+    if (this.directory) {
+      const filePath = this.filePath(productDir);
+      try {
+        stored = VersionHistoryFileSchema.parse(
+          JSON.parse(await fs.readFile(filePath, 'utf-8'))
+        ).versionDirectories;
+      } catch (error) {
+        debugData('No version history in %s: %O', filePath, error);
+      }
+    }
+    // A concurrent load may have finished first
+    const versions = this.versions.get(productDir) ?? new Set(stored);
+    this.versions.set(productDir, versions);
+    return versions;
+  }
+
+  private filePath(productDir: string): string {
+    return path.join(this.directory, `${productDir.replace(/\//g, '-')}.json`);
+  }
+}
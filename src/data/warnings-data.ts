@@ -0,0 +1,208 @@
+import type { ResolvedLocation } from '../schemas/location.js';
+import { WarningsRawSchema } from '../schemas/warnings.js';
+import type { HazardType, WarningsRaw, WeatherWarnings } from '../schemas/warnings.js';
+import type { LocalizedLabels } from '../schemas/weather-symbol.js';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import type { Language, Region } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { LocationResolutionError, resolveLocation } from './gazetteer.js';
+import { fetchCurrentVersionDirectory, fetchProductJson } from './product-output.js';
+
+// Product directory of the warnings below the product output root
+const WARNINGS_PRODUCT = 'warnings';
+
+/**
+ * Hazard types by MeteoSwiss warnType code, with labels
+ */
+const HAZARD_TYPES: Record<number, { hazard: HazardType; labels: LocalizedLabels }> = {
+  0: { hazard: 'wind', labels: { de: 'Wind', fr: 'Vent', it: 'Vento', en: 'Wind' } },
+  1: {
+    hazard: 'thunderstorm',
+    labels: { de: 'Gewitter', fr: 'Orages', it: 'Temporali', en: 'Thunderstorms' },
+  },
+  2: { hazard: 'rain', labels: { de: 'Regen', fr: 'Pluie', it: 'Pioggia', en: 'Rain' } },
+  3: { hazard: 'snow', labels: { de: 'Schnee', fr: 'Neige', it: 'Neve', en: 'Snow' } },
+  4: {
+    hazard: 'slippery-roads',
+    labels: {
+      de: 'Strassenglätte',
+      fr: 'Routes glissantes',
+      it: 'Strade sdrucciolevoli',
+      en: 'Slippery roads',
+    },
+  },
+  5: { hazard: 'frost', labels: { de: 'Frost', fr: 'Gel', it: 'Gelo', en: 'Frost' } },
+  6: { hazard: 'flood', labels: { de: 'Hochwasser', fr: 'Crues', it: 'Piene', en: 'Floods' } },
+  7: {
+    hazard: 'forest-fire',
+    labels: {
+      de: 'Waldbrandgefahr',
+      fr: "Danger d'incendies de forêt",
+      it: "Pericolo d'incendi boschivi",
+      en: 'Forest fire danger',
+    },
+  },
+  10: { hazard: 'heat', labels: { de: 'Hitze', fr: 'Canicule', it: 'Canicola', en: 'Heat' } },
+};
+
+/**
+ * Labels of the danger levels 1-5
+ */
+const LEVEL_LABELS: Record<number, LocalizedLabels> = {
+  1: {
+    de: 'Keine oder geringe Gefahr',
+    fr: 'Pas ou peu de danger',
+    it: 'Nessun pericolo o pericolo debole',
+    en: 'No or minimal danger',
+  },
+  2: { de: 'Mässige Gefahr', fr: 'Danger limité', it: 'Pericolo moderato', en: 'Moderate danger' },
+  3: {
+    de: 'Erhebliche Gefahr',
+    fr: 'Danger marqué',
+    it: 'Pericolo marcato',
+    en: 'Considerable danger',
+  },
+  4: { de: 'Grosse Gefahr', fr: 'Fort danger', it: 'Forte pericolo', en: 'High danger' },
+  5: {
+    de: 'Sehr grosse Gefahr',
+    fr: 'Très fort danger',
+    it: 'Pericolo molto forte',
+    en: 'Very high danger',
+  },
+};
+
+/**
+ * Area to get the warnings for, either a report region or a postal code
+ */
+export type WarningArea = { region: Region } | { postalCode: string };
+
+/**
+ * Gets the active warnings for a region or postal code
+ *
+ * A warning is active from its start until its end, warnings without an end stay active.
+ * For a postal code, only warnings for its canton and report region are returned. Only the
+ * postal codes of the localities in the gazetteer are supported.
+ *
+ * @param area - The region or postal code
+ * @param language - The language of the labels and texts
+ * @param versionDirectory - Version directory to read, defaults to the current one
+ * @param source - The data source to read the warnings from
+ * @param now - The time the warnings must be active at
+ * @returns The active warnings, highest level first
+ * @throws {Error} If the postal code is not supported or the warnings cannot be read
+ */
+export async function getActiveWarnings(
+  area: WarningArea,
+  language: Language,
+  versionDirectory?: string,
+  source: DataSource = getDefaultDataSource(),
+  now: Date = new Date()
+): Promise<WeatherWarnings> {
+  const areaDescription =
+    'region' in area ? `region ${area.region}` : `postal code ${area.postalCode}`;
+
+  try {
+    let region: Region;
+    let location: ResolvedLocation | undefined;
+    if ('postalCode' in area) {
+      location = resolvePostalCode(area.postalCode);
+      region = location.region;
+    } else {
+      region = area.region;
+    }
+
+    const versionDir =
+      versionDirectory ?? (await fetchCurrentVersionDirectory(WARNINGS_PRODUCT, source));
+    const raw = WarningsRawSchema.parse(
+      await fetchProductJson(`${WARNINGS_PRODUCT}/${versionDir}/warnings.json`, source)
+    );
+    debugData('Warnings loaded from %s: %d warnings', versionDir, raw.warnings.length);
+
+    const warnings = parseWarnings(raw, language, now.getTime()).filter(
+      (warning) =>
+        warning.regions.includes(region) && (!location || warning.cantons.includes(location.canton))
+    );
+
+    return {
+      region,
+      ...(location && { postalCode: location.postalCode, canton: location.canton }),
+      language,
+      issuedAt: new Date(raw.issueTime).toISOString(),
+      highestLevel: Math.max(0, ...warnings.map((warning) => warning.level)),
+      warnings,
+      source: 'meteoswiss',
+    };
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch warnings for ${areaDescription}: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
+    throw new Error(
+      `Failed to fetch warnings for ${areaDescription}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Resolves a postal code through the gazetteer
+ *
+ * @param postalCode - The four-digit postal code
+ * @returns The location of the postal code
+ * @throws {Error} If the postal code is not in the gazetteer
+ */
+function resolvePostalCode(postalCode: string): ResolvedLocation {
+  try {
+    return resolveLocation(postalCode);
+  } catch (error) {
+    if (error instanceof LocationResolutionError && error.candidates.length === 0) {
+      throw new Error(
+        `Postal code ${postalCode} is not supported, only the postal codes of the larger Swiss localities are known. Use the region (north, south or west) instead`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transforms the raw warnings into localized warnings
+ *
+ * @param raw - The validated raw warnings
+ * @param language - The language of the labels and texts
+ * @param now - The time in milliseconds since the epoch the warnings must be active at
+ * @returns The warnings active at that time, highest level first
+ */
+function parseWarnings(
+  raw: WarningsRaw,
+  language: Language,
+  now: number
+): WeatherWarnings['warnings'] {
+  return raw.warnings
+    .filter(
+      (warning) => warning.validFrom <= now && (warning.validTo === null || now < warning.validTo)
+    )
+    .flatMap((warning) => {
+      const hazardType = HAZARD_TYPES[warning.warnType];
+      if (!hazardType) {
+        debugData('Skipping warning %s with unknown warnType %d', warning.id, warning.warnType);
+        return [];
+      }
+      return [
+        {
+          id: warning.id,
+          hazard: hazardType.hazard,
+          hazardLabel: hazardType.labels[language],
+          level: warning.warnLevel,
+          levelLabel: LEVEL_LABELS[warning.warnLevel]?.[language] ?? String(warning.warnLevel),
+          validFrom: new Date(warning.validFrom).toISOString(),
+          validTo: warning.validTo === null ? null : new Date(warning.validTo).toISOString(),
+          regions: warning.regions,
+          cantons: warning.cantons,
+          text: warning.text[language],
+        },
+      ];
+    })
+    .sort((a, b) => b.level - a.level);
+}
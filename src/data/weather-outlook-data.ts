@@ -0,0 +1,97 @@
+import { JSDOM } from 'jsdom';
+import type { WeatherOutlook } from '../schemas/weather-outlook.js';
+import { debugData } from '../support/logging.js';
+import { validateLanguage, validateRegion } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { getLatestTextProductHtml } from './weather-report-data.js';
+
+/**
+ * Gets the latest weather outlook for a specific region and language
+ *
+ * @param region - The region to get the outlook for (north, south, west)
+ * @param language - The language to get the outlook in (de, fr, it, en)
+ * @param source - The data source to read the outlook from
+ * @returns The weather outlook data
+ */
+export async function getLatestWeatherOutlook(
+  region: string,
+  language: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherOutlook> {
+  const outlookHtml = await getLatestTextProductHtml('weather-outlook', region, language, source);
+  return parseWeatherOutlookHtml(outlookHtml, region, language);
+}
+
+/**
+ * Parses the weather outlook HTML into a structured object
+ *
+ * Every `h4` heading starts a new period, all following paragraphs up to the
+ * next heading form its description. Outlooks without headings are returned
+ * as a single period without a label.
+ *
+ * @param html - The HTML content of the outlook
+ * @param region - The region of the outlook
+ * @param language - The language of the outlook
+ * @returns Structured weather outlook data
+ */
+function parseWeatherOutlookHtml(html: string, region: string, language: string): WeatherOutlook {
+  const dom = new JSDOM(html);
+  const document = dom.window.document;
+
+  // Extract the title
+  const h3Element = document.querySelector('h3');
+  const title = h3Element ? h3Element.textContent || '' : '';
+
+  // Extract the update time
+  const pElement = document.querySelector('p');
+  const updatedAt = pElement && pElement.textContent ? pElement.textContent.trim() : '';
+
+  // Extract the periods
+  const periods: { period: string; description: string }[] = [];
+
+  const periodElements = document.querySelectorAll('h4');
+  periodElements.forEach((periodElement) => {
+    const paragraphs: string[] = [];
+    let nextElement = periodElement.nextElementSibling;
+    while (nextElement && nextElement.tagName !== 'H4') {
+      const text = nextElement.textContent ? nextElement.textContent.trim() : '';
+      if (text) {
+        paragraphs.push(text);
+      }
+      nextElement = nextElement.nextElementSibling;
+    }
+
+    periods.push({
+      period: (periodElement.textContent || '').trim(),
+      description: paragraphs.join('\n'),
+    });
+  });
+
+  // Create the full content (useful for showing the entire outlook)
+  const contentElement = document.querySelector('.textFCK');
+  const content =
+    contentElement && contentElement.textContent ? contentElement.textContent.trim() : '';
+
+  if (periods.length === 0) {
+    const paragraphs = Array.from(document.querySelectorAll('p'))
+      .filter((paragraph) => paragraph !== pElement)
+      .map((paragraph) => (paragraph.textContent || '').trim())
+      .filter(Boolean);
+    if (paragraphs.length > 0) {
+      periods.push({ period: '', description: paragraphs.join('\n') });
+    }
+  }
+
+  debugData('Parsed weather outlook for %s/%s with %d periods', region, language, periods.length);
+
+  return {
+    region: validateRegion(region),
+    language: validateLanguage(language),
+    title,
+    updatedAt,
+    content,
+    periods,
+    source: 'meteoswiss',
+  };
+}
@@ -0,0 +1,98 @@
+import { WeatherPillRawSchema } from '../schemas/weather-pill.js';
+import type { LocalForecast, WeatherPillRaw } from '../schemas/weather-pill.js';
+import { HttpRequestError } from '../support/http-communication.js';
+import { debugData } from '../support/logging.js';
+import type { Language } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { fetchCurrentVersionDirectory, fetchProductJson } from './product-output.js';
+import { describeWeatherSymbol } from './weather-symbols.js';
+
+// Product directory of the Weather Pill below the product output root
+const WEATHER_PILL_PRODUCT = 'weather-pill';
+
+/**
+ * Converts a Swiss postal code to the Weather Pill location id
+ * (the postal code followed by a two-digit locality suffix)
+ *
+ * @param postalCode - The four-digit postal code
+ * @returns The Weather Pill location id, e.g. `800100` for `8001`
+ */
+export function toWeatherPillId(postalCode: string): string {
+  return `${postalCode}00`;
+}
+
+/**
+ * Gets the latest local forecast for a Swiss postal code
+ *
+ * @param postalCode - The four-digit postal code
+ * @param language - The language of the weather condition labels
+ * @param source - The data source to read the forecast from
+ * @returns The local forecast data
+ */
+export async function getLatestLocalForecast(
+  postalCode: string,
+  language: Language,
+  source: DataSource = getDefaultDataSource()
+): Promise<LocalForecast> {
+  const pillId = toWeatherPillId(postalCode);
+
+  try {
+    const currentVersionDir = await fetchCurrentVersionDirectory(WEATHER_PILL_PRODUCT, source);
+    const raw = await fetchProductJson(
+      `${WEATHER_PILL_PRODUCT}/${currentVersionDir}/${pillId}.json`,
+      source
+    );
+    debugData('Weather pill %s loaded from %s', pillId, currentVersionDir);
+    return parseWeatherPill(WeatherPillRawSchema.parse(raw), postalCode, language);
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch local forecast for postal code ${postalCode}: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
+    throw new Error(
+      `Failed to fetch local forecast for postal code ${postalCode}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Transforms the raw Weather Pill data into a local forecast
+ *
+ * @param raw - The validated raw Weather Pill data
+ * @param postalCode - The requested postal code
+ * @param language - The language of the weather condition labels
+ * @returns Structured local forecast data
+ */
+function parseWeatherPill(
+  raw: WeatherPillRaw,
+  postalCode: string,
+  language: Language
+): LocalForecast {
+  return {
+    postalCode,
+    locationName: raw.name,
+    coordinates: {
+      latitude: raw.lat,
+      longitude: raw.lon,
+    },
+    altitude: raw.altitude,
+    current: {
+      observedAt: new Date(raw.currentWeather.time).toISOString(),
+      temperatureHigh: raw.currentWeather.temperature_max,
+      temperatureLow: raw.currentWeather.temperature_min,
+      weatherSymbolId: raw.currentWeather.weather_symbol_id,
+      condition: describeWeatherSymbol(raw.currentWeather.weather_symbol_id, language),
+    },
+    forecast: raw.forecast.map((day) => ({
+      date: day.dayDate,
+      temperatureHigh: day.temperature_max,
+      temperatureLow: day.temperature_min,
+      weatherSymbolId: day.weather_symbol_id,
+      condition: describeWeatherSymbol(day.weather_symbol_id, language),
+      precipitation: day.precipitation,
+    })),
+    source: 'meteoswiss',
+  };
+}
@@ -1,179 +1,536 @@
-import fs from 'node:fs/promises';
-import { existsSync } from 'node:fs';
-import path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { JSDOM } from 'jsdom';
-import type { WeatherReport } from '../schemas/weather-report.js';
-import { fetchHtml, fetchJson, HttpRequestError } from '../support/http-communication.js';
+import { TextProductVersionsRawSchema } from '../schemas/weather-report.js';
+import type {
+  CacheStatus,
+  WeatherReport,
+  WeatherReportVersion,
+} from '../schemas/weather-report.js';
+import { HttpRequestError } from '../support/http-communication.js';
 import { debugData } from '../support/logging.js';
+import { SingleFlight } from '../support/single-flight.js';
+import { upstreamCache } from '../support/upstream-cache.js';
+import { toZurichIsoString } from '../support/zurich-time.js';
 import { validateLanguage, validateRegion } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { parseVersionDirectory, ProductNotFoundError } from './product-output.js';
+import { withLastGoodReport } from './last-good-reports.js';
+import { parseForecastDates, parseUpdatedAt } from './weather-report-dates.js';
+import { parseTemperatureText } from './weather-report-temperatures.js';
 
-// Base URL for the MeteoSwiss product output
-const BASE_URL = 'https://www.meteoswiss.admin.ch/product/output/weather-report';
+/**
+ * Regional text products that share the `{languageDir}/{region}/versions.json` layout
+ */
+export type TextProduct = 'weather-report' | 'weather-outlook';
 
-// In test mode, use test fixtures instead of HTTP
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-// Look for test fixtures in both development and production paths
-const TEST_FIXTURES_DEV_PATH = path.resolve(__dirname, '../../test/__fixtures__/weather-report');
-const TEST_FIXTURES_PROD_PATH = path.resolve(__dirname, '../test/__fixtures__/weather-report');
-// Try the development path first, then fall back to production path
-const TEST_FIXTURES_ROOT = existsSync(TEST_FIXTURES_DEV_PATH)
-  ? TEST_FIXTURES_DEV_PATH
-  : TEST_FIXTURES_PROD_PATH;
+// Human-readable product names for error messages
+const TEXT_PRODUCT_NAMES: Record<TextProduct, string> = {
+  'weather-report': 'weather report',
+  'weather-outlook': 'weather outlook',
+};
 
-// Environment variable to use test fixtures instead of HTTP (for testing only)
-const USE_TEST_FIXTURES = process.env.USE_TEST_FIXTURES === 'true';
+/**
+ * The versions of a text product as listed in its versions.json
+ */
+type TextProductVersions = {
+  currentVersionDirectory: string;
+  versionDirectories: string[];
+  // Only set when fetched over HTTP
+  cache?: CacheStatus;
+  origin?: string;
+};
+
+/**
+ * Selects a version of a text product; without a selection the current version is used
+ */
+export interface TextProductVersionSelection {
+  /** A specific version directory, e.g. `version__20250426_1508` */
+  version?: string;
+  /** The version that was valid at this time (ISO 8601) */
+  asOf?: string;
+}
+
+// Concurrent requests for the same report of a data source share one fetch and parse
+const pendingReports = new WeakMap<DataSource, SingleFlight>();
 
 /**
  * Gets the latest weather report version for a specific region and language
  *
  * @param region - The region to get the report for (north, south, west)
  * @param language - The language to get the report in (de, fr, it, en)
+ * @param source - The data source to read the report from
  * @returns The weather report data
  */
 export async function getLatestWeatherReport(
   region: string,
-  language: string
+  language: string,
+  source: DataSource = getDefaultDataSource()
 ): Promise<WeatherReport> {
-  // Map language code to directory
-  const languageMap: Record<string, string> = {
-    en: 'de', // English reports are in the German directory with _en suffix
-    de: 'de',
-    fr: 'fr',
-    it: 'it',
-  };
-
-  const languageDir = languageMap[language] || 'de';
+  return getWeatherReport(region, language, {}, source);
+}
 
-  // Use test fixtures if USE_TEST_FIXTURES is set to true, regardless of NODE_ENV
-  if (USE_TEST_FIXTURES) {
-    return fetchWeatherReportFromTestFixtures(region, language, languageDir);
+/**
+ * Gets a weather report for a specific region and language
+ *
+ * If a remote source is unreachable, the current report is the last good one, marked as stale.
+ * Concurrent calls for the same report share one request.
+ *
+ * @param region - The region to get the report for (north, south, west)
+ * @param language - The language to get the report in (de, fr, it, en)
+ * @param selection - The version to get, defaults to the current version
+ * @param source - The data source to read the report from
+ * @returns The weather report data
+ */
+export async function getWeatherReport(
+  region: string,
+  language: string,
+  selection: TextProductVersionSelection = {},
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherReport> {
+  let pending = pendingReports.get(source);
+  if (!pending) {
+    pending = new SingleFlight();
+    pendingReports.set(source, pending);
   }
 
-  // In normal mode, fetch from HTTP
-  return fetchWeatherReportFromHttp(region, language, languageDir);
+  const key = [region, language, selection.version ?? '', selection.asOf ?? ''].join('/');
+  return pending.run(key, () => {
+    // The current report falls back to the last good one if the upstream fails
+    if (source.remote && !selection.version && !selection.asOf) {
+      return withLastGoodReport(region, language, () =>
+        fetchWeatherReport(region, language, selection, source)
+      );
+    }
+    return fetchWeatherReport(region, language, selection, source);
+  });
 }
 
 /**
- * Fetches weather report data from the HTTP endpoint
+ * Fetches and parses a weather report, using the upstream cache for remote sources
  *
- * @param region - The region to get the report for
- * @param language - The language to get the report in
- * @param languageDir - The language directory to use
+ * @param region - The region to get the report for (north, south, west)
+ * @param language - The language to get the report in (de, fr, it, en)
+ * @param selection - The version to get, defaults to the current version
+ * @param source - The data source to read the report from
  * @returns The weather report data
  */
-async function fetchWeatherReportFromHttp(
+async function fetchWeatherReport(
   region: string,
   language: string,
-  languageDir: string
+  selection: TextProductVersionSelection,
+  source: DataSource
 ): Promise<WeatherReport> {
-  // Construct the URL for the versions.json file
-  const versionsUrl = `${BASE_URL}/${languageDir}/${region}/versions.json`;
+  const {
+    versionDirectory,
+    cache: versionsCache,
+    origin: versionsOrigin,
+  } = await selectTextProductVersion('weather-report', region, language, selection, source);
+  const readReport = async (): Promise<WeatherReport> => {
+    const { html, origin } = await getTextProductHtml(
+      'weather-report',
+      region,
+      language,
+      versionDirectory,
+      source
+    );
+    const report = parseWeatherReportHtml(html, region, language, versionDirectory);
+    return origin ? { ...report, origin: { report: origin } } : report;
+  };
+
+  // Local files are read as they are, so tests can change fixtures between calls
+  if (!source.remote) {
+    return readReport();
+  }
+
+  // A version directory never changes, so its parsed report is cached until evicted
+  const { value: report, cache } = await upstreamCache.remember(
+    `weather-report/${region}/${language}/${versionDirectory}`,
+    readReport
+  );
+  debugData(
+    'Weather report %s for %s in %s: versions %s from %s, report %s from %s',
+    versionDirectory,
+    region,
+    language,
+    versionsCache ?? 'not read',
+    versionsOrigin ?? '-',
+    cache,
+    report.origin?.report ?? '-'
+  );
+  return {
+    ...report,
+    cache: { ...(versionsCache && { versions: versionsCache }), report: cache },
+    ...(report.origin && {
+      origin: { ...(versionsOrigin && { versions: versionsOrigin }), report: report.origin.report },
+    }),
+  };
+}
 
+/**
+ * Gets the latest weather report together with the XHTML it was parsed from
+ *
+ * The report is read like `getLatestWeatherReport`, so it is cached, shared between
+ * concurrent calls and falls back to the last good report. The XHTML of its version is read
+ * from the upstream cache over HTTP; it is missing for a stale report that is no longer cached.
+ *
+ * @param region - The region to get the report for (north, south, west)
+ * @param language - The language to get the report in (de, fr, it, en)
+ * @param source - The data source to read the report from
+ * @returns The weather report data and, if available, the original XHTML
+ */
+export async function getLatestWeatherReportWithHtml(
+  region: string,
+  language: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<{ report: WeatherReport; html?: string }> {
+  const report = await getLatestWeatherReport(region, language, source);
   try {
-    // Fetch the versions.json file to get the latest version
-    const versions = await fetchJson<{ currentVersionDirectory: string }>(versionsUrl);
-    const currentVersionDir = versions.currentVersionDirectory;
+    const { html } = await getTextProductHtml(
+      'weather-report',
+      region,
+      language,
+      report.version,
+      source
+    );
+    return { report, html };
+  } catch (error) {
+    if (!report.stale) {
+      throw error;
+    }
+    debugData('No XHTML for the stale weather report of %s in %s: %O', region, language, error);
+    return { report };
+  }
+}
 
-    // Determine which file to read based on language
-    const fileSuffix = language === 'en' ? '_en' : `_${language}`;
-    const reportUrl = `${BASE_URL}/${languageDir}/${region}/${currentVersionDir}/textproduct${fileSuffix}.xhtml`;
+/**
+ * Gets the current version directory of a regional text product
+ *
+ * @param product - The text product (weather-report, weather-outlook)
+ * @param region - The region (north, south, west)
+ * @param language - The language (de, fr, it, en)
+ * @param source - The data source to read the versions.json from
+ * @returns The `currentVersionDirectory` of the product's versions.json
+ */
+export async function getCurrentTextProductVersion(
+  product: TextProduct,
+  region: string,
+  language: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<string> {
+  const versions = await readTextProductVersions(product, region, language, source);
+  return versions.currentVersionDirectory;
+}
 
-    // Fetch the report HTML
-    const reportHtml = await fetchHtml(reportUrl);
-    return parseWeatherReportHtml(reportHtml, region, language);
+/**
+ * Lists the published versions of a regional text product
+ *
+ * @param product - The text product (weather-report, weather-outlook)
+ * @param region - The region (north, south, west)
+ * @param language - The language (de, fr, it, en)
+ * @param source - The data source to read the versions from
+ * @returns The versions, newest first
+ */
+export async function listTextProductVersions(
+  product: TextProduct,
+  region: string,
+  language: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherReportVersion[]> {
+  return toVersionList(await readTextProductVersions(product, region, language, source));
+}
+
+/**
+ * Reads the versions of a regional text product
+ *
+ * @param product - The text product (weather-report, weather-outlook)
+ * @param region - The region (north, south, west)
+ * @param language - The language (de, fr, it, en)
+ * @param source - The data source to read the versions from
+ * @returns The current version directory and the other version directories
+ */
+async function readTextProductVersions(
+  product: TextProduct,
+  region: string,
+  language: string,
+  source: DataSource
+): Promise<TextProductVersions> {
+  try {
+    return await readVersions(textProductDir(product, region, language), source);
   } catch (error) {
     if (error instanceof HttpRequestError) {
       throw new Error(
-        `Failed to fetch weather report for ${region} in ${language}: HTTP error ${error.statusCode || 'unknown'}`
+        `Failed to fetch ${TEXT_PRODUCT_NAMES[product]} versions for ${region} in ${language}: HTTP error ${error.statusCode || 'unknown'}`
       );
     }
     throw new Error(
-      `Failed to fetch weather report for ${region} in ${language}: ${error instanceof Error ? error.message : String(error)}`
+      `Failed to fetch ${TEXT_PRODUCT_NAMES[product]} versions for ${region} in ${language}: ${error instanceof Error ? error.message : String(error)}`
     );
   }
 }
 
 /**
- * Fetches weather report data from test fixtures
+ * Reads the versions.json of a text product, including the version directories
+ * the source knows besides the current one
  *
- * @param region - The region to get the report for
- * @param language - The language to get the report in
- * @param languageDir - The language directory to use
- * @returns The weather report data
+ * @param productDir - The directory of the text product, region and language
+ * @param source - The data source to read the versions from
+ * @returns The current version directory, the other version directories and,
+ *   over HTTP, the cache status and the origin that served the versions.json
+ */
+async function readVersions(productDir: string, source: DataSource): Promise<TextProductVersions> {
+  const { text, cache, origin } = await source.readText(`${productDir}/versions.json`, {
+    accept: 'application/json',
+    cache: 'revalidate',
+  });
+  const versions = TextProductVersionsRawSchema.parse(JSON.parse(text));
+  return {
+    currentVersionDirectory: versions.currentVersionDirectory,
+    versionDirectories: await source.listVersionDirectories(productDir),
+    cache,
+    origin,
+  };
+}
+
+/**
+ * Lists the version directories of a versions.json with their publication time
+ *
+ * @param versions - The versions of the text product
+ * @returns The versions, newest first
  */
-async function fetchWeatherReportFromTestFixtures(
+function toVersionList(versions: TextProductVersions): WeatherReportVersion[] {
+  const versionDirectories = new Set([
+    versions.currentVersionDirectory,
+    ...versions.versionDirectories,
+  ]);
+
+  return [...versionDirectories]
+    .flatMap((versionDirectory) => {
+      const publishedAt = parseVersionDirectory(versionDirectory);
+      return publishedAt
+        ? [
+            {
+              versionDirectory,
+              publishedAt: publishedAt.toISOString(),
+              current: versionDirectory === versions.currentVersionDirectory,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => b.versionDirectory.localeCompare(a.versionDirectory));
+}
+
+/**
+ * Resolves a version selection to a version directory
+ *
+ * @param product - The text product
+ * @param region - The region
+ * @param language - The language
+ * @param selection - The requested version or point in time, none for the current version
+ * @param source - The data source to read the versions from
+ * @returns The version directory, and the cache status and origin of the versions.json it was read from
+ * @throws {Error} If the version does not exist or no version was published before `asOf`
+ */
+async function selectTextProductVersion(
+  product: TextProduct,
   region: string,
   language: string,
-  languageDir: string
-): Promise<WeatherReport> {
-  const reportPath = path.join(TEST_FIXTURES_ROOT, languageDir, region);
+  selection: TextProductVersionSelection,
+  source: DataSource
+): Promise<{ versionDirectory: string; cache?: CacheStatus; origin?: string }> {
+  const { version, asOf } = selection;
+  if (version && asOf) {
+    throw new Error('Specify either version or asOf, not both');
+  }
 
-  try {
-    // Check if the directory exists
-    try {
-      await fs.access(reportPath);
-    } catch (error) {
-      throw new Error(
-        `Test fixture directory not found: ${reportPath}. Please ensure test fixtures are properly installed.
-        ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+  const textProductVersions = await readTextProductVersions(product, region, language, source);
+  const { cache, origin } = textProductVersions;
+  if (!version && !asOf) {
+    return { versionDirectory: textProductVersions.currentVersionDirectory, cache, origin };
+  }
 
-    // Read versions.json to get the latest version
-    const versionsFilePath = path.join(reportPath, 'versions.json');
-    let versionsData;
-    try {
-      versionsData = await fs.readFile(versionsFilePath, 'utf-8');
-    } catch (error) {
+  const versions = toVersionList(textProductVersions);
+
+  if (version) {
+    if (
+      !versions.some((entry) => entry.versionDirectory === version) &&
+      !(await hasTextProductVersion(product, region, language, version, source))
+    ) {
       throw new Error(
-        `versions.json not found in ${reportPath}. Full path tried: ${versionsFilePath}.
-        ${error instanceof Error ? error.message : String(error)}`
+        `Unknown ${TEXT_PRODUCT_NAMES[product]} version ${version} for ${region} in ${language}, available: ${versions.map((entry) => entry.versionDirectory).join(', ')}`
       );
     }
+    return { versionDirectory: version, cache, origin };
+  }
 
-    const versions = JSON.parse(versionsData);
-    debugData('Parsed versions data: %O', versions);
-    const currentVersionDir = versions.currentVersionDirectory;
-    debugData('Current version directory from fixture: %s', currentVersionDir);
-
-    // Determine which file to read based on language
-    const fileSuffix = language === 'en' ? '_en' : `_${language}`;
-    const reportFilePath = path.join(
-      reportPath,
-      currentVersionDir,
-      `textproduct${fileSuffix}.xhtml`
+  const asOfTime = new Date(asOf ?? '').getTime();
+  if (Number.isNaN(asOfTime)) {
+    throw new Error(`Invalid asOf time: ${asOf}`);
+  }
+  const validVersion = versions.find((entry) => new Date(entry.publishedAt).getTime() <= asOfTime);
+  if (!validVersion) {
+    const oldest = versions[versions.length - 1];
+    throw new Error(
+      `No ${TEXT_PRODUCT_NAMES[product]} for ${region} in ${language} was published before ${asOf}${oldest ? `, the oldest version is from ${oldest.publishedAt}` : ''}`
     );
+  }
+  debugData('Version valid as of %s: %s', asOf, validVersion.versionDirectory);
+  return { versionDirectory: validVersion.versionDirectory, cache, origin };
+}
 
-    // Read and parse the report HTML
-    let reportHtml;
-    try {
-      reportHtml = await fs.readFile(reportFilePath, 'utf-8');
-    } catch (error) {
-      throw new Error(
-        `Report file not found: ${reportFilePath}. Please ensure all test fixtures are properly installed.
-        ${error instanceof Error ? error.message : String(error)}`
-      );
+/**
+ * Checks whether a version directory that is not listed holds the text product,
+ * e.g. an earlier version the product output still serves
+ *
+ * @param product - The text product
+ * @param region - The region
+ * @param language - The language
+ * @param versionDirectory - The version directory
+ * @param source - The data source to read the product from
+ * @returns True if the text product of the version exists
+ */
+async function hasTextProductVersion(
+  product: TextProduct,
+  region: string,
+  language: string,
+  versionDirectory: string,
+  source: DataSource
+): Promise<boolean> {
+  if (!parseVersionDirectory(versionDirectory)) {
+    return false;
+  }
+  try {
+    await source.readText(
+      `${textProductDir(product, region, language)}/${versionDirectory}/${textProductFile(language)}`,
+      { accept: 'text/html', cache: 'immutable' }
+    );
+    return true;
+  } catch (error) {
+    if (
+      error instanceof ProductNotFoundError ||
+      (error instanceof HttpRequestError && error.statusCode === 404)
+    ) {
+      return false;
     }
+    throw error;
+  }
+}
+
+/**
+ * Gets the HTML of the latest version of a regional text product
+ *
+ * @param product - The text product (weather-report, weather-outlook)
+ * @param region - The region to get the product for (north, south, west)
+ * @param language - The language to get the product in (de, fr, it, en)
+ * @param source - The data source to read the product from
+ * @returns The XHTML content of the text product
+ */
+export async function getLatestTextProductHtml(
+  product: TextProduct,
+  region: string,
+  language: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<string> {
+  const { html } = await getTextProductHtml(product, region, language, undefined, source);
+  return html;
+}
+
+/**
+ * Gets the HTML of a version of a regional text product
+ *
+ * @param product - The text product (weather-report, weather-outlook)
+ * @param region - The region to get the product for (north, south, west)
+ * @param language - The language to get the product in (de, fr, it, en)
+ * @param versionDirectory - The version directory, defaults to the current version
+ * @param source - The data source to read the product from
+ * @returns The XHTML content, the version directory it was read from and, over HTTP, the origin
+ */
+export async function getTextProductHtml(
+  product: TextProduct,
+  region: string,
+  language: string,
+  versionDirectory?: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<{ html: string; versionDirectory: string; origin?: string }> {
+  const productDir = textProductDir(product, region, language);
 
-    return parseWeatherReportHtml(reportHtml, region, language);
+  try {
+    // Read the versions.json to get the latest version, unless a version is requested
+    const versionDir =
+      versionDirectory ?? (await readVersions(productDir, source)).currentVersionDirectory;
+
+    // The report never changes within a version directory
+    const { text: html, origin } = await source.readText(
+      `${productDir}/${versionDir}/${textProductFile(language)}`,
+      { accept: 'text/html', cache: 'immutable' }
+    );
+    return { html, versionDirectory: versionDir, ...(origin && { origin }) };
   } catch (error) {
-    console.error(`Error reading test fixture for ${region} in ${language}:`, error);
+    if (error instanceof HttpRequestError) {
+      throw new Error(
+        `Failed to fetch ${TEXT_PRODUCT_NAMES[product]} for ${region} in ${language}: HTTP error ${error.statusCode || 'unknown'}`
+      );
+    }
     throw new Error(
-      `Failed to get test fixture for ${region} in ${language}: ${error instanceof Error ? error.message : String(error)}`
+      `Failed to fetch ${TEXT_PRODUCT_NAMES[product]} for ${region} in ${language}: ${error instanceof Error ? error.message : String(error)}`
     );
   }
 }
 
+/**
+ * Gets the directory of a regional text product in a language
+ *
+ * @param product - The text product
+ * @param region - The region
+ * @param language - The language code
+ * @returns The directory relative to the product output root, e.g. `weather-report/de/north`
+ */
+export function textProductDir(product: TextProduct, region: string, language: string): string {
+  return `${product}/${toLanguageDir(language)}/${region}`;
+}
+
+/**
+ * Gets the file name of a regional text product in a language within a version directory
+ *
+ * @param language - The language code
+ * @returns The file name, e.g. `textproduct_en.xhtml` (next to `textproduct_de.xhtml`)
+ */
+export function textProductFile(language: string): string {
+  return `textproduct_${language}.xhtml`;
+}
+
+/**
+ * Maps a language code to the directory of the text products
+ *
+ * @param language - The language code
+ * @returns The language directory
+ */
+function toLanguageDir(language: string): string {
+  // Map language code to directory
+  const languageMap: Record<string, string> = {
+    en: 'de', // English reports are in the German directory with _en suffix
+    de: 'de',
+    fr: 'fr',
+    it: 'it',
+  };
+
+  return languageMap[language] || 'de';
+}
+
 /**
  * Parses the weather report HTML into a structured object
  *
  * @param html - The HTML content of the report
  * @param region - The region of the report
  * @param language - The language of the report
+ * @param versionDirectory - The version directory the report was read from
  * @returns Structured weather report data
  */
-function parseWeatherReportHtml(html: string, region: string, language: string): WeatherReport {
+function parseWeatherReportHtml(
+  html: string,
+  region: string,
+  language: string,
+  versionDirectory?: string
+): WeatherReport {
   const dom = new JSDOM(html);
   const document = dom.window.document;
 
@@ -186,7 +543,7 @@ function parseWeatherReportHtml(html: string, region: string, language: string):
   const updatedAt = pElement && pElement.textContent ? pElement.textContent.trim() : '';
 
   // Extract the forecast by day
-  const forecast: { day: string; description: string; temperature?: string }[] = [];
+  const forecast: WeatherReport['forecast'] = [];
 
   const dayElements = document.querySelectorAll('h4');
   dayElements.forEach((dayElement) => {
@@ -200,9 +557,30 @@ function parseWeatherReportHtml(html: string, region: string, language: string):
       day,
       description,
       temperature: temperature || undefined,
+      ...(temperature && { temperatures: parseTemperatureText(temperature) }),
     });
   });
 
+  // Date the report and its days, falling back to the publication time of the version
+  const issued =
+    parseUpdatedAt(updatedAt) ??
+    (versionDirectory ? parseVersionDirectory(versionDirectory) : undefined);
+  const issuedAt = issued ? toZurichIsoString(issued) : undefined;
+  if (issuedAt) {
+    const dates = parseForecastDates(
+      forecast.map((day) => day.day),
+      issuedAt.slice(0, 10)
+    );
+    forecast.forEach((day, index) => {
+      const date = dates[index];
+      if (date) {
+        day.date = date;
+      }
+    });
+  } else {
+    debugData('No issue time in "%s" for %s in %s', updatedAt, region, language);
+  }
+
   // Create the full content (useful for showing the entire report)
   const contentElement = document.querySelector('.textFCK');
   const content =
@@ -213,8 +591,10 @@ function parseWeatherReportHtml(html: string, region: string, language: string):
     language: validateLanguage(language),
     title,
     updatedAt,
+    issuedAt,
     content,
     forecast,
+    version: versionDirectory,
     source: 'meteoswiss',
   };
 }
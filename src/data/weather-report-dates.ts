@@ -0,0 +1,156 @@
+import { fromZurichLocalTime } from '../support/zurich-time.js';
+
+// Month names in en, de, fr and it without diacritics, January first
+const MONTH_NAMES = [
+  ['january', 'januar', 'janvier', 'gennaio'],
+  ['february', 'februar', 'fevrier', 'febbraio'],
+  ['march', 'marz', 'mars', 'marzo'],
+  ['april', 'april', 'avril', 'aprile'],
+  ['may', 'mai', 'mai', 'maggio'],
+  ['june', 'juni', 'juin', 'giugno'],
+  ['july', 'juli', 'juillet', 'luglio'],
+  ['august', 'august', 'aout', 'agosto'],
+  ['september', 'september', 'septembre', 'settembre'],
+  ['october', 'oktober', 'octobre', 'ottobre'],
+  ['november', 'november', 'novembre', 'novembre'],
+  ['december', 'dezember', 'decembre', 'dicembre'],
+];
+
+// Weekday names in en, de, fr and it without diacritics, Sunday first as in Date#getUTCDay
+const WEEKDAY_NAMES = [
+  ['sunday', 'sonntag', 'dimanche', 'domenica'],
+  ['monday', 'montag', 'lundi', 'lunedi'],
+  ['tuesday', 'dienstag', 'mardi', 'martedi'],
+  ['wednesday', 'mittwoch', 'mercredi', 'mercoledi'],
+  ['thursday', 'donnerstag', 'jeudi', 'giovedi'],
+  ['friday', 'freitag', 'vendredi', 'venerdi'],
+  ['saturday', 'samstag', 'samedi', 'sabato'],
+];
+
+const MONTHS = new Map(
+  MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index + 1] as const))
+);
+
+const WEEKDAYS = new Map(
+  WEEKDAY_NAMES.flatMap((names, index) => names.map((name) => [name, index] as const))
+);
+
+// Relative day words as offset to the issue date ("aujourd'hui" splits into "aujourd" and "hui")
+const RELATIVE_DAYS = new Map([
+  ['today', 0],
+  ['heute', 0],
+  ['aujourd', 0],
+  ['oggi', 0],
+  ['tomorrow', 1],
+  ['morgen', 1],
+  ['demain', 1],
+  ['domani', 1],
+]);
+
+// "2025-04-26 15:08"
+const NUMERIC_DATE_TIME = /(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/;
+
+const TIME = /(\d{1,2}):(\d{2})/;
+
+// A number with an ordinal suffix, e.g. "1er" in French or "1st" in English
+const ORDINAL = /^(\d+)(?:er|re|st|nd|rd|th)$/;
+
+/**
+ * Parses the update line of a weather report as Zurich local time
+ *
+ * Handles "Updated on Saturday, April 26, 2025, 07:02", "Aktualisiert am Samstag, 26. April 2025, 07:02",
+ * "Mis à jour le samedi 26 avril 2025, 07:02" and "Aggiornato sabato 26 aprile 2025, 07:02",
+ * also with ordinal days like "1er mai" or "1. Mai".
+ *
+ * @param updatedAt - The update line of the report
+ * @returns The point in time, or undefined if the line has no date and time
+ */
+export function parseUpdatedAt(updatedAt: string): Date | undefined {
+  const numeric = NUMERIC_DATE_TIME.exec(updatedAt);
+  if (numeric) {
+    const [, year, month, day, hour, minute] = numeric.map(Number);
+    if (year && month && day && hour !== undefined && minute !== undefined) {
+      return fromZurichLocalTime(year, month, day, hour, minute);
+    }
+  }
+
+  const time = TIME.exec(updatedAt);
+  const words = toWords(updatedAt.replace(TIME, ' '));
+  const monthIndex = words.findIndex((word) => MONTHS.has(word));
+  const month = MONTHS.get(words[monthIndex] ?? '');
+  const year = words.map(Number).find((word) => word >= 1000);
+  // The day of the month precedes the month name, except in English ("April 26")
+  const day = [words[monthIndex - 1], words[monthIndex + 1]]
+    .map(toDayNumber)
+    .find((word) => word >= 1 && word <= 31);
+  if (!time || !month || !year || !day) {
+    return undefined;
+  }
+  return fromZurichLocalTime(year, month, day, Number(time[1]), Number(time[2]));
+}
+
+/**
+ * Assigns dates to the day labels of a weather report
+ *
+ * Labels like "Today Saturday" or "Demain dimanche" are relative to the issue date. Plain
+ * weekdays ("Monday", "Lunedì") are the next such day after the previous forecast day.
+ *
+ * @param labels - The day labels in report order
+ * @param issueDate - The local issue date of the report (YYYY-MM-DD)
+ * @returns The date of each label (YYYY-MM-DD), undefined for unknown labels
+ */
+export function parseForecastDates(labels: string[], issueDate: string): Array<string | undefined> {
+  let previous: string | undefined;
+
+  return labels.map((label) => {
+    const words = toWords(label);
+    const relative = words
+      .map((word) => RELATIVE_DAYS.get(word))
+      .find((days) => days !== undefined);
+    const weekday = words.map((word) => WEEKDAYS.get(word)).find((day) => day !== undefined);
+
+    let date: string | undefined;
+    if (relative !== undefined) {
+      date = addDays(issueDate, relative);
+    } else if (weekday !== undefined) {
+      date = previous ? addDays(previous, 1) : issueDate;
+      date = addDays(date, (weekday - weekdayOf(date) + 7) % 7);
+    }
+    previous = date ?? previous;
+    return date;
+  });
+}
+
+/**
+ * Splits a text into lowercase words without diacritics
+ *
+ * @param text - The text
+ * @returns The words and numbers of the text
+ */
+function toWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Converts a word to the number of a day of the month, dropping an ordinal suffix
+ *
+ * @param word - A word of the update line, e.g. "26" or "1er"
+ * @returns The number, NaN for other words
+ */
+function toDayNumber(word: string | undefined): number {
+  return Number(ORDINAL.exec(word ?? '')?.[1] ?? word);
+}
+
+function addDays(date: string, days: number): string {
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
@@ -0,0 +1,246 @@
+import type {
+  TemperatureChange,
+  TextChange,
+  WeatherReportDiff,
+} from '../schemas/weather-report-diff.js';
+import type { TemperatureReading, WeatherReport } from '../schemas/weather-report.js';
+import { debugData } from '../support/logging.js';
+import { getDefaultDataSource } from './data-source.js';
+import type { DataSource } from './data-source.js';
+import { getWeatherReport } from './weather-report-data.js';
+import type { TextProductVersionSelection } from './weather-report-data.js';
+
+// Version references naming a version directory; anything else is a point in time
+const VERSION_DIRECTORY_REFERENCE = /^version__\d{8}_\d{4}$/;
+
+// Relative day words ("Today Saturday", "Demain dimanche") change between versions
+const RELATIVE_DAY_PREFIX = /^(today|tomorrow|heute|morgen|aujourd'hui|demain|oggi|domani)\s+/i;
+
+type ForecastDay = WeatherReport['forecast'][number];
+
+/**
+ * Gets the changes between two versions of a weather report
+ *
+ * @param region - The region of the report (north, south, west)
+ * @param language - The language of the report (de, fr, it, en)
+ * @param from - The older version, as version directory or point in time
+ * @param to - The newer version, as version directory or point in time; defaults to the current report
+ * @param source - The data source to read the reports from
+ * @returns The day-by-day changes
+ */
+export async function getWeatherReportDiff(
+  region: string,
+  language: string,
+  from: string,
+  to?: string,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherReportDiff> {
+  const [fromReport, toReport] = await Promise.all([
+    getWeatherReport(region, language, toVersionSelection(from), source),
+    getWeatherReport(region, language, to ? toVersionSelection(to) : {}, source),
+  ]);
+  debugData('Comparing weather report %s with %s', fromReport.version, toReport.version);
+  return diffWeatherReports(fromReport, toReport);
+}
+
+/**
+ * Compares two versions of the same weather report day by day
+ *
+ * Days are matched by their date. Undated days are matched by their weekday, ignoring
+ * relative words like "Today" or "Tomorrow". Besides the text, the temperatures parsed
+ * from it are compared, so a changed value is reported with its delta.
+ * Days only in the older version come first, followed by the days of the newer version.
+ *
+ * @param from - The older report
+ * @param to - The newer report
+ * @returns The day-by-day changes
+ */
+export function diffWeatherReports(from: WeatherReport, to: WeatherReport): WeatherReportDiff {
+  const fromDays = new Map(from.forecast.map((day) => [dayKey(day), day]));
+  const toKeys = new Set(to.forecast.map(dayKey));
+
+  const days: WeatherReportDiff['days'] = [];
+
+  for (const [key, fromDay] of fromDays) {
+    if (!toKeys.has(key)) {
+      days.push({
+        day: fromDay.day,
+        ...(fromDay.date && { date: fromDay.date }),
+        status: 'removed',
+        description: compareText(fromDay.description, undefined),
+        ...(fromDay.temperature && { temperature: compareText(fromDay.temperature, undefined) }),
+      });
+    }
+  }
+
+  for (const toDay of to.forecast) {
+    const fromDay = fromDays.get(dayKey(toDay));
+    if (!fromDay) {
+      days.push({
+        day: toDay.day,
+        ...(toDay.date && { date: toDay.date }),
+        status: 'added',
+        description: compareText(undefined, toDay.description),
+        ...(toDay.temperature && { temperature: compareText(undefined, toDay.temperature) }),
+      });
+      continue;
+    }
+
+    const descriptionChanged = fromDay.description.trim() !== toDay.description.trim();
+    const temperatureChanged =
+      (fromDay.temperature ?? '').trim() !== (toDay.temperature ?? '').trim();
+    const temperatureChanges = compareTemperatures(
+      fromDay.temperatures ?? [],
+      toDay.temperatures ?? []
+    );
+    days.push({
+      day: toDay.day,
+      ...(toDay.date && { date: toDay.date }),
+      status: descriptionChanged || temperatureChanged ? 'changed' : 'unchanged',
+      ...(descriptionChanged && {
+        description: compareText(fromDay.description, toDay.description),
+      }),
+      ...(temperatureChanged && {
+        temperature: compareText(fromDay.temperature, toDay.temperature),
+      }),
+      ...(temperatureChanges.length > 0 && { temperatureChanges }),
+    });
+  }
+
+  const count = (status: WeatherReportDiff['days'][number]['status']): number =>
+    days.filter((day) => day.status === status).length;
+
+  return {
+    region: to.region,
+    language: to.language,
+    from: { version: from.version, updatedAt: from.updatedAt, issuedAt: from.issuedAt },
+    to: { version: to.version, updatedAt: to.updatedAt, issuedAt: to.issuedAt },
+    days,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      changed: count('changed'),
+      unchanged: count('unchanged'),
+    },
+    source: 'meteoswiss',
+  };
+}
+
+/**
+ * Converts a version reference into a version selection
+ *
+ * @param reference - A version directory or a point in time (ISO 8601)
+ * @returns The version selection
+ */
+function toVersionSelection(reference: string): TextProductVersionSelection {
+  return VERSION_DIRECTORY_REFERENCE.test(reference) ? { version: reference } : { asOf: reference };
+}
+
+/**
+ * Gets the key to match a forecast day across versions
+ *
+ * @param day - The forecast day
+ * @returns The date of the day, or the normalized day label for undated days
+ */
+function dayKey(day: ForecastDay): string {
+  return day.date ?? day.day.trim().replace(RELATIVE_DAY_PREFIX, '').toLowerCase();
+}
+
+/**
+ * Compares two texts sentence by sentence
+ *
+ * @param from - The older text
+ * @param to - The newer text
+ * @returns The texts with the added and removed sentences
+ */
+function compareText(from: string | undefined, to: string | undefined): TextChange {
+  const fromSentences = splitSentences(from);
+  const toSentences = splitSentences(to);
+  return {
+    from,
+    to,
+    addedSentences: toSentences.filter((sentence) => !fromSentences.includes(sentence)),
+    removedSentences: fromSentences.filter((sentence) => !toSentences.includes(sentence)),
+  };
+}
+
+/**
+ * Compares the temperatures of a day value by value
+ *
+ * Temperatures are matched by altitude, time of day and area, and in the order of the
+ * text if several share them.
+ *
+ * @param from - The temperatures of the older version
+ * @param to - The temperatures of the newer version
+ * @returns The added, removed and changed temperatures, in the order of the newer version
+ */
+function compareTemperatures(
+  from: TemperatureReading[],
+  to: TemperatureReading[]
+): TemperatureChange[] {
+  const fromByKey = new Map(keyTemperatures(from).map(([key, reading]) => [key, reading]));
+  const toKeys = new Set<string>();
+  const changes: TemperatureChange[] = [];
+
+  for (const [key, toReading] of keyTemperatures(to)) {
+    toKeys.add(key);
+    const fromReading = fromByKey.get(key);
+    if (fromReading?.minC === toReading.minC && fromReading?.maxC === toReading.maxC) {
+      continue;
+    }
+    const minDeltaC = delta(fromReading?.minC, toReading.minC);
+    const maxDeltaC = delta(fromReading?.maxC, toReading.maxC);
+    changes.push({
+      ...temperatureContext(toReading),
+      ...(fromReading && { from: temperatureValues(fromReading) }),
+      to: temperatureValues(toReading),
+      ...(minDeltaC !== undefined && { minDeltaC }),
+      ...(maxDeltaC !== undefined && { maxDeltaC }),
+    });
+  }
+
+  for (const [key, fromReading] of fromByKey) {
+    if (!toKeys.has(key)) {
+      changes.push({ ...temperatureContext(fromReading), from: temperatureValues(fromReading) });
+    }
+  }
+  return changes;
+}
+
+function keyTemperatures(readings: TemperatureReading[]): Array<[string, TemperatureReading]> {
+  const occurrences = new Map<string, number>();
+  return readings.map((reading) => {
+    const context = [reading.altitudeContext, reading.timeOfDay, reading.area].join('|');
+    const occurrence = occurrences.get(context) ?? 0;
+    occurrences.set(context, occurrence + 1);
+    return [`${context}|${occurrence}`, reading];
+  });
+}
+
+function temperatureContext(
+  reading: TemperatureReading
+): Pick<TemperatureChange, 'altitudeContext' | 'timeOfDay' | 'area'> {
+  return {
+    ...(reading.altitudeContext && { altitudeContext: reading.altitudeContext }),
+    ...(reading.timeOfDay && { timeOfDay: reading.timeOfDay }),
+    ...(reading.area && { area: reading.area }),
+  };
+}
+
+function temperatureValues(reading: TemperatureReading): { minC?: number; maxC?: number } {
+  return {
+    ...(reading.minC !== undefined && { minC: reading.minC }),
+    ...(reading.maxC !== undefined && { maxC: reading.maxC }),
+  };
+}
+
+function delta(from: number | undefined, to: number | undefined): number | undefined {
+  return from === undefined || to === undefined ? undefined : to - from;
+}
+
+function splitSentences(text: string | undefined): string[] {
+  return (text ?? '')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
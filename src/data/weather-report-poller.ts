@@ -0,0 +1,126 @@
+import { debugData } from '../support/logging.js';
+import { LanguageSchema, RegionSchema } from '../types/meteoswiss.js';
+import type { Language, Region } from '../types/meteoswiss.js';
+import type { DataSource } from './data-source.js';
+import { getCurrentTextProductVersion } from './weather-report-data.js';
+
+/**
+ * A newly published weather report version
+ */
+export interface WeatherReportUpdate {
+  region: Region;
+  language: Language;
+  versionDirectory: string;
+}
+
+/**
+ * Options of the weather report poller
+ */
+export interface WeatherReportPollerOptions {
+  /** Time between two polls */
+  intervalMs: number;
+  /** Called when a new version of a report was published */
+  onUpdate: (update: WeatherReportUpdate) => Promise<void>;
+  /** Reads the current version directory of a report, defaults to its versions.json */
+  readCurrentVersion?: (region: Region, language: Language) => Promise<string>;
+  /** Source the default `readCurrentVersion` reads versions.json from */
+  dataSource?: DataSource;
+}
+
+/**
+ * Watches the versions.json of every region and language for a new `currentVersionDirectory`
+ *
+ * The first poll only records the current versions. Reports whose versions.json cannot be
+ * read keep their last known version and are retried with the next poll.
+ */
+export class WeatherReportPoller {
+  private versions = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private readonly readCurrentVersion: (region: Region, language: Language) => Promise<string>;
+
+  constructor(private readonly options: WeatherReportPollerOptions) {
+    this.readCurrentVersion =
+      options.readCurrentVersion ??
+      ((region, language) =>
+        getCurrentTextProductVersion('weather-report', region, language, options.dataSource));
+  }
+
+  /**
+   * Start polling in the background
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    debugData('Starting weather report poller, interval: %dms', this.options.intervalMs);
+    void this.poll();
+    this.timer = setInterval(() => void this.poll(), this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      debugData('Weather report poller stopped');
+    }
+  }
+
+  /**
+   * Check all reports for new versions once
+   *
+   * @returns The reports with a new version since the previous poll
+   */
+  async poll(): Promise<WeatherReportUpdate[]> {
+    // Skip if the previous poll is still running, e.g. on a slow upstream
+    if (this.polling) {
+      return [];
+    }
+    this.polling = true;
+    try {
+      return await this.pollReports();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollReports(): Promise<WeatherReportUpdate[]> {
+    const reports = RegionSchema.options.flatMap((region) =>
+      LanguageSchema.removeDefault().options.map((language) => ({ region, language }))
+    );
+
+    const results = await Promise.all(
+      reports.map(async ({ region, language }) => {
+        const key = `${region}/${language}`;
+        let versionDirectory: string;
+        try {
+          versionDirectory = await this.readCurrentVersion(region, language);
+        } catch (error) {
+          debugData('Polling weather report %s failed: %O', key, error);
+          return [];
+        }
+
+        const previous = this.versions.get(key);
+        this.versions.set(key, versionDirectory);
+        if (previous === undefined || previous === versionDirectory) {
+          return [];
+        }
+
+        debugData('New weather report version for %s: %s', key, versionDirectory);
+        const update = { region, language, versionDirectory };
+        try {
+          await this.options.onUpdate(update);
+        } catch (error) {
+          debugData('Weather report update handler failed for %s: %O', key, error);
+        }
+        return [update];
+      })
+    );
+
+    return results.flat();
+  }
+}
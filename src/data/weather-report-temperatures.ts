@@ -0,0 +1,159 @@
+import type { TemperatureReading } from '../schemas/weather-report.js';
+import { isKnownPlaceName } from './gazetteer.js';
+
+// Freezing level sentences mention altitudes but no temperatures
+const FREEZING_LEVEL = /zero-degree|nullgradgrenze|z[ée]ro degr[ée]|zero termico/i;
+
+const LOWLANDS = /lowlands|niederungen|flachland|plaine|pianura/i;
+
+// An altitude like "At 2000 m", "In 2000 m", "In Lagen um 2000 m", "À 2000 m" or "A 2000 m"
+const ALTITUDE = /(?:^|\s)(?:at|in|à|a|auf|sur|su)\s+(?:Lagen\s+(?:um|von)\s+)?(\d{3,4})\s*m\b/i;
+
+// A capitalized word after "in", "im" or "en", e.g. "in Valais", "im Wallis", "in Vallese"
+const AREA_CANDIDATE = /(?:^|\s)(?:[Ii]n|[Ii]m|[Ee]n)\s+(\p{Lu}[\p{L}-]+)/gu;
+
+// Areas of the weather reports that are neither localities nor cantons
+const REPORT_AREAS = new Set([
+  'Jura',
+  'Mittelland',
+  'Plateau',
+  'Altopiano',
+  'Voralpen',
+  'Préalpes',
+  'Prealpi',
+  'Prealps',
+  'Alpen',
+  'Alpes',
+  'Alpi',
+  'Alps',
+  'Alpennordseite',
+  'Alpensüdseite',
+  'Engadin',
+  'Engadine',
+  'Engadina',
+  'Oberwallis',
+  'Unterwallis',
+  'Haut-Valais',
+  'Bas-Valais',
+  'Chablais',
+  'Genferseegebiet',
+  'Nordbünden',
+  'Mittelbünden',
+  'Südbünden',
+  'Misox',
+  'Mesolcina',
+  'Puschlav',
+  'Bergell',
+  'Bregaglia',
+  'Sopraceneri',
+  'Sottoceneri',
+  'Zentralschweiz',
+  'Ostschweiz',
+  'Westschweiz',
+  'Nordwestschweiz',
+  'Romandie',
+  'Rhonetal',
+  'Rheintal',
+]);
+
+// Early morning first, "fin de nuit" and "frühen Morgen" would otherwise match night and morning
+const TIMES_OF_DAY: Array<[NonNullable<TemperatureReading['timeOfDay']>, RegExp]> = [
+  ['early-morning', /early in the morning|early morning|frühen morgen|fin de nuit|primo mattino/i],
+  ['afternoon', /afternoon|nachmittag|après-midi|pomeriggio/i],
+  ['morning', /morning|vormittag|morgen|matin|mattino|mattina/i],
+  ['evening', /evening|abend|soir|sera/i],
+  ['night', /night|nacht|nuit|notte/i],
+];
+
+// "20 to 24", "20 bis 24", "de 20 à 24", "tra 20 e 24", "20-25°C"
+const RANGE = /(-?\d+)\s*(?:to|bis|à|e|-|–)\s*(-?\d+)/i;
+
+// "up to 25", "bis 25", "jusqu'à 25", "fino a 25"
+const UP_TO = /(?:up to|bis|jusqu['’]à|fino a)\s+(-?\d+)/i;
+
+const SINGLE = /(-?\d+)/;
+
+/**
+ * Extracts the temperatures from the temperature text of a forecast day
+ *
+ * The text is read clause by clause. Altitude and time of day of a clause apply to the
+ * following clauses of the same sentence, e.g. "Temperature in the lowlands early in the
+ * morning around 11, in the afternoon around 19 degrees" yields two lowland values.
+ *
+ * @param text - The temperature text, e.g. "Temperature in the afternoon 21 to 24 degrees."
+ * @returns The temperatures in the order of the text
+ */
+export function parseTemperatureText(text: string): TemperatureReading[] {
+  const readings: TemperatureReading[] = [];
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (FREEZING_LEVEL.test(sentence)) {
+      continue;
+    }
+
+    let altitudeContext: string | undefined;
+    let timeOfDay: TemperatureReading['timeOfDay'];
+
+    for (const clause of sentence.split(/,\s+/)) {
+      const altitude = ALTITUDE.exec(clause);
+      if (altitude) {
+        altitudeContext = `${altitude[1]} m`;
+      } else if (LOWLANDS.test(clause)) {
+        altitudeContext = 'lowlands';
+      }
+      timeOfDay = TIMES_OF_DAY.find(([, pattern]) => pattern.test(clause))?.[0] ?? timeOfDay;
+
+      const values = parseValues(altitude ? clause.replace(altitude[0], '') : clause);
+      if (!values) {
+        continue;
+      }
+
+      const area = findArea(clause);
+      readings.push({
+        ...values,
+        ...(altitudeContext && { altitudeContext }),
+        ...(area && { area }),
+        ...(timeOfDay && { timeOfDay }),
+        text: clause.trim(),
+      });
+    }
+  }
+
+  return readings;
+}
+
+/**
+ * Finds the area a clause is restricted to
+ *
+ * Only known areas count, so capitalized nouns like "im Flachland" or "in Lagen" are no areas.
+ *
+ * @param clause - The clause
+ * @returns The first known area of the clause, or undefined without one
+ */
+function findArea(clause: string): string | undefined {
+  return [...clause.matchAll(AREA_CANDIDATE)]
+    .map((match) => match[1])
+    .find((name) => name !== undefined && (REPORT_AREAS.has(name) || isKnownPlaceName(name)));
+}
+
+/**
+ * Reads the temperature values of a clause
+ *
+ * @param clause - The clause without altitudes
+ * @returns The lower and upper bound, or undefined without a value
+ */
+function parseValues(clause: string): Pick<TemperatureReading, 'minC' | 'maxC'> | undefined {
+  const range = RANGE.exec(clause);
+  if (range) {
+    return { minC: Number(range[1]), maxC: Number(range[2]) };
+  }
+  const upTo = UP_TO.exec(clause);
+  if (upTo) {
+    return { maxC: Number(upTo[1]) };
+  }
+  const single = SINGLE.exec(clause);
+  if (single) {
+    return { minC: Number(single[1]), maxC: Number(single[1]) };
+  }
+  return undefined;
+}
@@ -0,0 +1,514 @@
+import type {
+  LocalizedLabels,
+  WeatherCondition,
+  WeatherConditionCategory,
+  WeatherSymbol,
+} from '../schemas/weather-symbol.js';
+import type { Language } from '../types/meteoswiss.js';
+
+// Night symbols use the day symbol id plus this offset (e.g. 101 is the night variant of 1)
+const NIGHT_SYMBOL_OFFSET = 100;
+
+type SymbolDefinition = {
+  category: WeatherConditionCategory;
+  day: LocalizedLabels;
+  // Only set where the night wording differs from the day wording ("sunny" vs. "clear")
+  night?: LocalizedLabels;
+};
+
+/**
+ * Day symbol definitions, keyed by weather_symbol_id
+ */
+const SYMBOL_DEFINITIONS: Record<number, SymbolDefinition> = {
+  1: {
+    category: 'clear',
+    day: { de: 'Sonnig', fr: 'Ensoleillé', it: 'Soleggiato', en: 'Sunny' },
+    night: { de: 'Klar', fr: 'Ciel dégagé', it: 'Sereno', en: 'Clear' },
+  },
+  2: {
+    category: 'partly-cloudy',
+    day: {
+      de: 'Ziemlich sonnig, einige Wolken',
+      fr: 'Assez ensoleillé, quelques nuages',
+      it: 'Abbastanza soleggiato, alcune nubi',
+      en: 'Mostly sunny, some clouds',
+    },
+    night: {
+      de: 'Ziemlich klar, einige Wolken',
+      fr: 'Assez dégagé, quelques nuages',
+      it: 'Abbastanza sereno, alcune nubi',
+      en: 'Mostly clear, some clouds',
+    },
+  },
+  3: {
+    category: 'partly-cloudy',
+    day: {
+      de: 'Teilweise sonnig, dichte Wolkenfelder',
+      fr: 'Partiellement ensoleillé, passages nuageux denses',
+      it: 'Parzialmente soleggiato, nubi dense',
+      en: 'Partly sunny, thick passing clouds',
+    },
+    night: {
+      de: 'Teilweise klar, dichte Wolkenfelder',
+      fr: 'Partiellement dégagé, passages nuageux denses',
+      it: 'Parzialmente sereno, nubi dense',
+      en: 'Partly clear, thick passing clouds',
+    },
+  },
+  4: {
+    category: 'cloudy',
+    day: { de: 'Bedeckt', fr: 'Couvert', it: 'Coperto', en: 'Overcast' },
+  },
+  5: {
+    category: 'cloudy',
+    day: { de: 'Stark bewölkt', fr: 'Très nuageux', it: 'Molto nuvoloso', en: 'Very cloudy' },
+  },
+  6: {
+    category: 'showers',
+    day: {
+      de: 'Sonnige Abschnitte, vereinzelte Schauer',
+      fr: 'Éclaircies, averses isolées',
+      it: 'Schiarite, rovesci isolati',
+      en: 'Sunny intervals, isolated showers',
+    },
+    night: {
+      de: 'Aufgelockert, vereinzelte Schauer',
+      fr: 'Éclaircies nocturnes, averses isolées',
+      it: 'Schiarite notturne, rovesci isolati',
+      en: 'Clear intervals, isolated showers',
+    },
+  },
+  7: {
+    category: 'sleet',
+    day: {
+      de: 'Sonnige Abschnitte, vereinzelt Schneeregen',
+      fr: 'Éclaircies, neige mouillée isolée',
+      it: 'Schiarite, neve bagnata isolata',
+      en: 'Sunny intervals, isolated sleet',
+    },
+    night: {
+      de: 'Aufgelockert, vereinzelt Schneeregen',
+      fr: 'Éclaircies nocturnes, neige mouillée isolée',
+      it: 'Schiarite notturne, neve bagnata isolata',
+      en: 'Clear intervals, isolated sleet',
+    },
+  },
+  8: {
+    category: 'snow',
+    day: {
+      de: 'Sonnige Abschnitte, vereinzelte Schneeschauer',
+      fr: 'Éclaircies, averses de neige isolées',
+      it: 'Schiarite, rovesci di neve isolati',
+      en: 'Sunny intervals, isolated snow showers',
+    },
+    night: {
+      de: 'Aufgelockert, vereinzelte Schneeschauer',
+      fr: 'Éclaircies nocturnes, averses de neige isolées',
+      it: 'Schiarite notturne, rovesci di neve isolati',
+      en: 'Clear intervals, isolated snow showers',
+    },
+  },
+  9: {
+    category: 'showers',
+    day: {
+      de: 'Bedeckt, einige Regenschauer',
+      fr: 'Couvert, quelques averses',
+      it: 'Coperto, alcuni rovesci',
+      en: 'Overcast, some rain showers',
+    },
+  },
+  10: {
+    category: 'sleet',
+    day: {
+      de: 'Bedeckt, etwas Schneeregen',
+      fr: 'Couvert, un peu de neige mouillée',
+      it: 'Coperto, un po’ di neve bagnata',
+      en: 'Overcast, some sleet',
+    },
+  },
+  11: {
+    category: 'snow',
+    day: {
+      de: 'Bedeckt, einige Schneeschauer',
+      fr: 'Couvert, quelques averses de neige',
+      it: 'Coperto, alcuni rovesci di neve',
+      en: 'Overcast, some snow showers',
+    },
+  },
+  12: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Sonnige Abschnitte, Gewitter möglich',
+      fr: 'Éclaircies, risque d’orages',
+      it: 'Schiarite, possibili temporali',
+      en: 'Sunny intervals, chance of thunderstorms',
+    },
+    night: {
+      de: 'Aufgelockert, Gewitter möglich',
+      fr: 'Éclaircies nocturnes, risque d’orages',
+      it: 'Schiarite notturne, possibili temporali',
+      en: 'Clear intervals, chance of thunderstorms',
+    },
+  },
+  13: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Bedeckt, Gewitter möglich',
+      fr: 'Couvert, risque d’orages',
+      it: 'Coperto, possibili temporali',
+      en: 'Overcast, chance of thunderstorms',
+    },
+  },
+  14: {
+    category: 'rain',
+    day: {
+      de: 'Stark bewölkt, leichter Regen',
+      fr: 'Très nuageux, pluie faible',
+      it: 'Molto nuvoloso, pioggia debole',
+      en: 'Very cloudy, light rain',
+    },
+  },
+  15: {
+    category: 'sleet',
+    day: {
+      de: 'Stark bewölkt, leichter Schneeregen',
+      fr: 'Très nuageux, faible neige mouillée',
+      it: 'Molto nuvoloso, debole neve bagnata',
+      en: 'Very cloudy, light sleet',
+    },
+  },
+  16: {
+    category: 'snow',
+    day: {
+      de: 'Stark bewölkt, leichter Schneefall',
+      fr: 'Très nuageux, faibles chutes de neige',
+      it: 'Molto nuvoloso, deboli nevicate',
+      en: 'Very cloudy, light snowfall',
+    },
+  },
+  17: {
+    category: 'rain',
+    day: {
+      de: 'Stark bewölkt, zeitweise Regen',
+      fr: 'Très nuageux, pluie intermittente',
+      it: 'Molto nuvoloso, pioggia intermittente',
+      en: 'Very cloudy, intermittent rain',
+    },
+  },
+  18: {
+    category: 'sleet',
+    day: {
+      de: 'Stark bewölkt, zeitweise Schneeregen',
+      fr: 'Très nuageux, neige mouillée intermittente',
+      it: 'Molto nuvoloso, neve bagnata intermittente',
+      en: 'Very cloudy, intermittent sleet',
+    },
+  },
+  19: {
+    category: 'snow',
+    day: {
+      de: 'Stark bewölkt, zeitweise Schneefall',
+      fr: 'Très nuageux, neige intermittente',
+      it: 'Molto nuvoloso, neve intermittente',
+      en: 'Very cloudy, intermittent snow',
+    },
+  },
+  20: {
+    category: 'rain',
+    day: {
+      de: 'Trüb, anhaltender Regen',
+      fr: 'Très couvert, pluie persistante',
+      it: 'Molto coperto, pioggia persistente',
+      en: 'Very overcast with rain',
+    },
+  },
+  21: {
+    category: 'sleet',
+    day: {
+      de: 'Trüb, häufiger Schneeregen',
+      fr: 'Très couvert, neige mouillée fréquente',
+      it: 'Molto coperto, neve bagnata frequente',
+      en: 'Very overcast with frequent sleet',
+    },
+  },
+  22: {
+    category: 'snow',
+    day: {
+      de: 'Trüb, starker Schneefall',
+      fr: 'Très couvert, fortes chutes de neige',
+      it: 'Molto coperto, forti nevicate',
+      en: 'Very overcast with heavy snow',
+    },
+  },
+  23: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, vereinzelte Gewitter',
+      fr: 'Très couvert, orages isolés',
+      it: 'Molto coperto, temporali isolati',
+      en: 'Very overcast, slight chance of thunderstorms',
+    },
+  },
+  24: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, Gewitter',
+      fr: 'Très couvert, orages',
+      it: 'Molto coperto, temporali',
+      en: 'Very overcast with thunderstorms',
+    },
+  },
+  25: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, heftige Gewitter',
+      fr: 'Très couvert, violents orages',
+      it: 'Molto coperto, forti temporali',
+      en: 'Very overcast with severe thunderstorms',
+    },
+  },
+  26: {
+    category: 'partly-cloudy',
+    day: { de: 'Hohe Wolkenfelder', fr: 'Nuages élevés', it: 'Nubi alte', en: 'High clouds' },
+  },
+  27: {
+    category: 'fog',
+    day: { de: 'Hochnebel', fr: 'Stratus', it: 'Nebbia alta', en: 'Low stratus' },
+  },
+  28: {
+    category: 'fog',
+    day: { de: 'Nebel', fr: 'Brouillard', it: 'Nebbia', en: 'Fog' },
+  },
+  29: {
+    category: 'showers',
+    day: {
+      de: 'Sonnige Abschnitte, einzelne Regenschauer',
+      fr: 'Éclaircies, averses éparses',
+      it: 'Schiarite, rovesci sparsi',
+      en: 'Sunny intervals, scattered showers',
+    },
+    night: {
+      de: 'Aufgelockert, einzelne Regenschauer',
+      fr: 'Éclaircies nocturnes, averses éparses',
+      it: 'Schiarite notturne, rovesci sparsi',
+      en: 'Clear intervals, scattered showers',
+    },
+  },
+  30: {
+    category: 'snow',
+    day: {
+      de: 'Sonnige Abschnitte, einzelne Schneeschauer',
+      fr: 'Éclaircies, averses de neige éparses',
+      it: 'Schiarite, rovesci di neve sparsi',
+      en: 'Sunny intervals, scattered snow showers',
+    },
+    night: {
+      de: 'Aufgelockert, einzelne Schneeschauer',
+      fr: 'Éclaircies nocturnes, averses de neige éparses',
+      it: 'Schiarite notturne, rovesci di neve sparsi',
+      en: 'Clear intervals, scattered snow showers',
+    },
+  },
+  31: {
+    category: 'sleet',
+    day: {
+      de: 'Sonnige Abschnitte, einzelne Schneeregenschauer',
+      fr: 'Éclaircies, averses de neige mouillée éparses',
+      it: 'Schiarite, rovesci di neve bagnata sparsi',
+      en: 'Sunny intervals, scattered sleet',
+    },
+    night: {
+      de: 'Aufgelockert, einzelne Schneeregenschauer',
+      fr: 'Éclaircies nocturnes, averses de neige mouillée éparses',
+      it: 'Schiarite notturne, rovesci di neve bagnata sparsi',
+      en: 'Clear intervals, scattered sleet',
+    },
+  },
+  32: {
+    category: 'showers',
+    day: {
+      de: 'Sonnige Abschnitte, einige Schauer',
+      fr: 'Éclaircies, quelques averses',
+      it: 'Schiarite, alcuni rovesci',
+      en: 'Sunny intervals, some showers',
+    },
+    night: {
+      de: 'Aufgelockert, einige Schauer',
+      fr: 'Éclaircies nocturnes, quelques averses',
+      it: 'Schiarite notturne, alcuni rovesci',
+      en: 'Clear intervals, some showers',
+    },
+  },
+  33: {
+    category: 'rain',
+    day: {
+      de: 'Kurze sonnige Abschnitte, häufige Regenschauer',
+      fr: 'Brèves éclaircies, averses fréquentes',
+      it: 'Brevi schiarite, rovesci frequenti',
+      en: 'Short sunny intervals, frequent rain',
+    },
+    night: {
+      de: 'Kurz aufgelockert, häufige Regenschauer',
+      fr: 'Brèves éclaircies nocturnes, averses fréquentes',
+      it: 'Brevi schiarite notturne, rovesci frequenti',
+      en: 'Short clear intervals, frequent rain',
+    },
+  },
+  34: {
+    category: 'snow',
+    day: {
+      de: 'Kurze sonnige Abschnitte, häufige Schneeschauer',
+      fr: 'Brèves éclaircies, averses de neige fréquentes',
+      it: 'Brevi schiarite, rovesci di neve frequenti',
+      en: 'Short sunny intervals, frequent snowfalls',
+    },
+    night: {
+      de: 'Kurz aufgelockert, häufige Schneeschauer',
+      fr: 'Brèves éclaircies nocturnes, averses de neige fréquentes',
+      it: 'Brevi schiarite notturne, rovesci di neve frequenti',
+      en: 'Short clear intervals, frequent snowfalls',
+    },
+  },
+  35: {
+    category: 'cloudy',
+    day: {
+      de: 'Bedeckt und trocken',
+      fr: 'Couvert et sec',
+      it: 'Coperto e asciutto',
+      en: 'Overcast and dry',
+    },
+  },
+  36: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Teilweise sonnig, leicht gewittrig',
+      fr: 'Partiellement ensoleillé, légèrement orageux',
+      it: 'Parzialmente soleggiato, lievemente temporalesco',
+      en: 'Partly sunny, slightly thundery',
+    },
+    night: {
+      de: 'Teilweise klar, leicht gewittrig',
+      fr: 'Partiellement dégagé, légèrement orageux',
+      it: 'Parzialmente sereno, lievemente temporalesco',
+      en: 'Partly clear, slightly thundery',
+    },
+  },
+  37: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Teilweise sonnig, gewittrige Schneeschauer',
+      fr: 'Partiellement ensoleillé, averses de neige orageuses',
+      it: 'Parzialmente soleggiato, rovesci di neve temporaleschi',
+      en: 'Partly sunny, thundery snow showers',
+    },
+    night: {
+      de: 'Teilweise klar, gewittrige Schneeschauer',
+      fr: 'Partiellement dégagé, averses de neige orageuses',
+      it: 'Parzialmente sereno, rovesci di neve temporaleschi',
+      en: 'Partly clear, thundery snow showers',
+    },
+  },
+  38: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Bedeckt, gewittrige Regenschauer',
+      fr: 'Couvert, averses orageuses',
+      it: 'Coperto, rovesci temporaleschi',
+      en: 'Overcast, thundery showers',
+    },
+  },
+  39: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Bedeckt, gewittrige Schneeschauer',
+      fr: 'Couvert, averses de neige orageuses',
+      it: 'Coperto, rovesci di neve temporaleschi',
+      en: 'Overcast, thundery snow showers',
+    },
+  },
+  40: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, gewittriger Regen',
+      fr: 'Très couvert, pluie orageuse',
+      it: 'Molto coperto, pioggia temporalesca',
+      en: 'Very overcast, thundery rain',
+    },
+  },
+  41: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, gewittriger Schneefall',
+      fr: 'Très couvert, neige orageuse',
+      it: 'Molto coperto, neve temporalesca',
+      en: 'Very overcast, thundery snow',
+    },
+  },
+  42: {
+    category: 'thunderstorm',
+    day: {
+      de: 'Trüb, kräftige gewittrige Schauer',
+      fr: 'Très couvert, fortes averses orageuses',
+      it: 'Molto coperto, forti rovesci temporaleschi',
+      en: 'Very overcast, heavy thundery showers',
+    },
+  },
+};
+
+/**
+ * The complete MeteoSwiss weather symbol catalogue, day symbols followed by night symbols
+ */
+export const WEATHER_SYMBOLS: readonly WeatherSymbol[] = [
+  ...Object.entries(SYMBOL_DEFINITIONS).map(([id, definition]) => ({
+    id: Number(id),
+    daytime: true,
+    category: definition.category,
+    labels: definition.day,
+  })),
+  ...Object.entries(SYMBOL_DEFINITIONS).map(([id, definition]) => ({
+    id: Number(id) + NIGHT_SYMBOL_OFFSET,
+    daytime: false,
+    category: definition.category,
+    labels: definition.night ?? definition.day,
+  })),
+];
+
+const WEATHER_SYMBOLS_BY_ID = new Map(WEATHER_SYMBOLS.map((symbol) => [symbol.id, symbol]));
+
+/**
+ * Looks up a weather symbol in the catalogue
+ *
+ * @param symbolId - The MeteoSwiss weather_symbol_id
+ * @returns The catalogue entry, or undefined for unknown ids
+ */
+export function getWeatherSymbol(symbolId: number): WeatherSymbol | undefined {
+  return WEATHER_SYMBOLS_BY_ID.get(symbolId);
+}
+
+/**
+ * Resolves a weather symbol id to a human-readable condition
+ *
+ * @param symbolId - The MeteoSwiss weather_symbol_id
+ * @param language - The language of the label
+ * @returns The condition, or undefined for unknown ids
+ *
+ * @example
+ * ```ts
+ * describeWeatherSymbol(26, 'de'); // { symbolId: 26, daytime: true, category: 'partly-cloudy', label: 'Hohe Wolkenfelder' }
+ * ```
+ */
+export function describeWeatherSymbol(
+  symbolId: number,
+  language: Language
+): WeatherCondition | undefined {
+  const symbol = getWeatherSymbol(symbolId);
+  if (!symbol) {
+    return undefined;
+  }
+  return {
+    symbolId: symbol.id,
+    daytime: symbol.daytime,
+    category: symbol.category,
+    label: symbol.labels[language],
+  };
+}
@@ -5,6 +5,16 @@
  */
 
 import { createServer } from './server.js';
+import { lastGoodReports } from './data/last-good-reports.js';
+import { configureUpstreamOrigins } from './data/product-output.js';
+import { DEFAULT_VERSION_HISTORY_DIR } from './data/version-history.js';
+import { createDataSource, setDefaultDataSource } from './data/data-source.js';
+import { WeatherReportPoller } from './data/weather-report-poller.js';
+import { resourceSubscriptions } from './support/resource-subscriptions.js';
+import { upstreamCache } from './support/upstream-cache.js';
+import { circuitBreakers } from './support/circuit-breaker.js';
+import { configureRetryPolicy } from './support/retry-policy.js';
+import { weatherReportResourceUri } from './support/resource-uris.js';
 import { createHttpServer } from './transports/streamable-http.js';
 import { debugMain, initFileLogging, closeFileLogging } from './support/logging.js';
 import { validateEnv } from './support/environment-validation.js';
@@ -72,20 +82,66 @@ async function main(): Promise<HttpServerInterface> {
     config.DEBUG_MCHMCP
   );
 
-  // Create the MCP server instance
-  const mcpServer = createServer();
+  // Cache upstream documents as configured
+  upstreamCache.configure({
+    versionsTtlMs: config.CACHE_VERSIONS_TTL_MS,
+    maxEntries: config.CACHE_MAX_ENTRIES,
+  });
+  configureUpstreamOrigins({
+    ...(config.UPSTREAM_BASE_URL && { baseUrl: config.UPSTREAM_BASE_URL }),
+    mirrors: config.UPSTREAM_MIRRORS,
+  });
+  configureRetryPolicy({
+    retries: config.HTTP_RETRIES,
+    baseDelayMs: config.HTTP_RETRY_BASE_DELAY_MS,
+    maxDelayMs: config.HTTP_RETRY_MAX_DELAY_MS,
+    deadlineMs: config.HTTP_RETRY_DEADLINE_MS,
+  });
+  circuitBreakers.configure({
+    failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: config.CIRCUIT_RESET_TIMEOUT_MS,
+  });
+  if (config.LAST_GOOD_REPORTS_DIR !== undefined) {
+    lastGoodReports.configure(config.LAST_GOOD_REPORTS_DIR);
+  }
+
+  // Read the products from the fixtures, a local mirror or the upstream
+  const dataSource = createDataSource({
+    useTestFixtures: config.USE_TEST_FIXTURES,
+    mirrorDir: config.LOCAL_MIRROR_DIR,
+    versionHistoryDir: config.VERSION_HISTORY_DIR ?? DEFAULT_VERSION_HISTORY_DIR,
+  });
+  setDefaultDataSource(dataSource);
+  debugMain('Data source: %s', dataSource.kind);
 
   let server: HttpServerInterface | null = null;
 
   try {
     debugMain('Creating HTTP server on port %d', port);
-    server = await createHttpServer(mcpServer, { port, host: config.BIND_ADDRESS, config });
+    // Every session gets its own MCP server, sharing the data source and the subscriptions
+    server = await createHttpServer(() => createServer({ dataSource }), {
+      port,
+      host: config.BIND_ADDRESS,
+      config,
+    });
     await server.start();
     debugMain('HTTP server started');
     const mcpUrl = getMcpEndpointUrl(config);
     console.log(`MCP server running at ${mcpUrl}`);
     console.log(`Connect with: npx mcp-remote ${mcpUrl}`);
     console.log(`Inspect with: npx @modelcontextprotocol/inspector ${mcpUrl}`);
+
+    // Notify subscribed sessions when a new weather report is published
+    if (config.REPORT_POLL_INTERVAL_MS > 0) {
+      reportPoller = new WeatherReportPoller({
+        intervalMs: config.REPORT_POLL_INTERVAL_MS,
+        dataSource,
+        onUpdate: async ({ region, language }) => {
+          await resourceSubscriptions.notify(weatherReportResourceUri(region, language));
+        },
+      });
+      reportPoller.start();
+    }
   } catch (error) {
     console.error('Failed to start server:', error);
     debugMain('Server startup failed: %O', error);
@@ -98,11 +154,13 @@ async function main(): Promise<HttpServerInterface> {
 
 // Global server reference for cleanup
 let globalServer: HttpServerInterface | null = null;
+let reportPoller: WeatherReportPoller | null = null;
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.error('\nShutting down server...');
   debugMain('SIGINT received, initiating graceful shutdown');
+  reportPoller?.stop();
   if (globalServer) {
     debugMain('Stopping server...');
     globalServer.stop();
@@ -116,6 +174,7 @@ process.on('SIGINT', () => {
 process.on('SIGTERM', () => {
   console.error('\nShutting down server...');
   debugMain('SIGTERM received, initiating graceful shutdown');
+  reportPoller?.stop();
   if (globalServer) {
     debugMain('Stopping server...');
     globalServer.stop();
@@ -0,0 +1,155 @@
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CompareNorthSouthPromptArgs,
+  DailyBriefingPromptArgs,
+  OutdoorActivityPromptArgs,
+} from '../schemas/prompts.js';
+import type { Language, Region } from '../types/meteoswiss.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { getLatestWeatherReport } from '../data/weather-report-data.js';
+import { resolveLocation } from '../data/gazetteer.js';
+import { weatherReportResourceUri } from '../support/resource-uris.js';
+import { debugServer } from '../support/logging.js';
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+/**
+ * Builds a user message embedding the current weather report of a region as a resource
+ *
+ * @param region - The region of the report
+ * @param language - The language of the report
+ * @param source - The data source to read the report from
+ * @returns The message with the report as JSON
+ */
+async function weatherReportMessage(
+  region: Region,
+  language: Language,
+  source: DataSource
+): Promise<PromptMessage> {
+  const report = await getLatestWeatherReport(region, language, source);
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri: weatherReportResourceUri(region, language),
+        mimeType: 'application/json',
+        text: JSON.stringify(report, null, 2),
+      },
+    },
+  };
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Builds the daily-briefing prompt
+ *
+ * @param args - The prompt arguments
+ * @param source - The data source to read the report from
+ * @returns The prompt with the current report of the region
+ */
+export async function dailyBriefingPrompt(
+  args: DailyBriefingPromptArgs,
+  source: DataSource = getDefaultDataSource()
+): Promise<GetPromptResult> {
+  const { region, language } = args;
+  debugServer('Building daily-briefing prompt for %s (%s)', region, language);
+
+  try {
+    return {
+      description: `Daily weather briefing for ${region} Switzerland in ${language}`,
+      messages: [
+        textMessage(
+          `Give me a short daily weather briefing for ${region} Switzerland, written in the language "${language}". ` +
+            'Summarise today, highlight temperatures, precipitation and anything unusual, then give a brief look at the next days. ' +
+            'Base it on the current MeteoSwiss weather report below.'
+        ),
+        await weatherReportMessage(region, language, source),
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to build daily-briefing prompt for region "${region}": ${errorMessage}`
+    );
+  }
+}
+
+/**
+ * Builds the outdoor-activity prompt
+ *
+ * The location is resolved to the report region covering it.
+ *
+ * @param args - The prompt arguments
+ * @param source - The data source to read the report from
+ * @returns The prompt with the current report of the location's region
+ */
+export async function outdoorActivityPrompt(
+  args: OutdoorActivityPromptArgs,
+  source: DataSource = getDefaultDataSource()
+): Promise<GetPromptResult> {
+  const { location, day, activity = 'time outdoors', language = 'en' } = args;
+  debugServer('Building outdoor-activity prompt for %s on %s (%s)', location, day, language);
+
+  try {
+    const resolved = resolveLocation(location);
+    return {
+      description: `Plan ${activity} on ${day} in ${resolved.name}`,
+      messages: [
+        textMessage(
+          `I am planning ${activity} on ${day} in ${resolved.name} (canton ${resolved.canton}, postal code ${resolved.postalCode}). ` +
+            `Using the current MeteoSwiss weather report for ${resolved.region} Switzerland below, tell me whether the weather suits it, ` +
+            'which time of day is best and what to bring. Reply in the language of the report. ' +
+            `Check the meteoswissWeatherWarnings tool for postal code ${resolved.postalCode} before recommending to go.`
+        ),
+        await weatherReportMessage(resolved.region, language, source),
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to build outdoor-activity prompt for location "${location}": ${errorMessage}`
+    );
+  }
+}
+
+/**
+ * Builds the compare-north-south prompt
+ *
+ * @param args - The prompt arguments
+ * @param source - The data source to read the report from
+ * @returns The prompt with the current reports of the north and the south
+ */
+export async function compareNorthSouthPrompt(
+  args: CompareNorthSouthPromptArgs,
+  source: DataSource = getDefaultDataSource()
+): Promise<GetPromptResult> {
+  const { trip = 'a trip', language = 'en' } = args;
+  debugServer('Building compare-north-south prompt for %s (%s)', trip, language);
+
+  try {
+    const [north, south] = await Promise.all([
+      weatherReportMessage('north', language, source),
+      weatherReportMessage('south', language, source),
+    ]);
+    return {
+      description: `Compare the weather north and south of the Alps for ${trip}`,
+      messages: [
+        textMessage(
+          `Compare the weather north and south of the Alps for ${trip}. ` +
+            'Go through the forecast days side by side and recommend which side is the better choice on which day. ' +
+            'Reply in the language of the reports. The current MeteoSwiss weather reports of both regions follow.'
+        ),
+        north,
+        south,
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to build compare-north-south prompt: ${errorMessage}`);
+  }
+}
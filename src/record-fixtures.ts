@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/**
+ * Records weather report fixtures from the MeteoSwiss product output
+ *
+ * Usage: pnpm record-fixtures [--out <dir>] [--base-url <url>] [--mirror <url>]...
+ *   [--region <region>]... [--language <language>]...
+ */
+
+import { parseArgs } from 'node:util';
+import { HttpDataSource } from './data/data-source.js';
+import { recordWeatherReportFixtures } from './data/fixture-recorder.js';
+import { PRODUCT_OUTPUT_BASE_URL, TEST_FIXTURES_ROOT } from './data/product-output.js';
+import { validateEnv } from './support/environment-validation.js';
+import { debugMain } from './support/logging.js';
+import { validateLanguage, validateRegion } from './types/meteoswiss.js';
+
+const USAGE = `Usage: pnpm record-fixtures [options]
+
+Records versions.json and the current text products of every weather report into the fixture layout.
+
+Options:
+  --out <dir>            Directory to write to (default: test/__fixtures__)
+  --base-url <url>       Base URL of the product output (default: UPSTREAM_BASE_URL or MeteoSwiss)
+  --mirror <url>         Base URL tried when the base URL is unavailable, repeatable
+  --region <region>      Region to record, repeatable (default: all)
+  --language <language>  Language to record, repeatable (default: all)
+  --help                 Show this help`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: TEST_FIXTURES_ROOT },
+      'base-url': { type: 'string' },
+      mirror: { type: 'string', multiple: true, default: [] },
+      region: { type: 'string', multiple: true },
+      language: { type: 'string', multiple: true },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = validateEnv();
+  const baseUrl = values['base-url'] ?? config.UPSTREAM_BASE_URL ?? PRODUCT_OUTPUT_BASE_URL;
+  debugMain('Recording fixtures from %s into %s', baseUrl, values.out);
+  const manifest = await recordWeatherReportFixtures({
+    source: new HttpDataSource({ baseUrl, mirrors: values.mirror }),
+    outputDir: values.out,
+    ...(values.region && { regions: values.region.map(validateRegion) }),
+    ...(values.language && { languages: values.language.map(validateLanguage) }),
+  });
+
+  console.log(
+    `Recorded ${manifest.files.length} files of ${manifest.reports.length} reports into ${values.out}`
+  );
+  for (const failure of manifest.failures) {
+    console.error(`Not recorded: ${failure.path}: ${failure.error}`);
+  }
+  if (manifest.failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('Recording fixtures failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
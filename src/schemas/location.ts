@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { RegionSchema } from '../types/meteoswiss.js';
+
+/**
+ * Resolved location schema
+ * Result of looking up a locality, postal code or canton in the gazetteer
+ */
+export const ResolvedLocationSchema = z.object({
+  name: z.string(),
+  canton: z.string(),
+  region: RegionSchema,
+  postalCode: z.string(),
+  weatherPillId: z.string(),
+  stationId: z.string(),
+  coordinates: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+  }),
+  matchedBy: z.enum(['postal-code', 'locality', 'canton']),
+});
+
+export type ResolvedLocation = z.infer<typeof ResolvedLocationSchema>;
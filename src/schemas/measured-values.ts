@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/**
+ * Measurement parameters available as hourly ChartData series
+ */
+export const MeasurementParameterSchema = z.enum([
+  'temperature',
+  'precipitation',
+  'wind',
+  'humidity',
+  'sunshine',
+  'snow',
+  'pressure',
+  'radiation',
+]);
+
+/**
+ * Raw ChartData schema
+ * Defines the structure of the MeteoSwiss ChartData JSON files, one file per
+ * station, parameter and interval; each series holds `[timestamp in ms, value]` pairs
+ */
+export const ChartDataRawSchema = z.object({
+  stationCode: z.string(),
+  unit: z.string().optional(),
+  series: z.array(
+    z.object({
+      name: z.string(),
+      unit: z.string().optional(),
+      data: z.array(z.tuple([z.number(), z.number().nullable()])),
+    })
+  ),
+});
+
+/**
+ * A single measured value
+ */
+export const MeasurementSchema = z.object({
+  timestamp: z.string(),
+  value: z.number().nullable(),
+});
+
+/**
+ * Station measurements schema
+ * Defines the structure for the measured values of one station
+ */
+export const StationMeasurementsSchema = z.object({
+  stationCode: z.string(),
+  measurements: z.array(
+    z.object({
+      parameter: MeasurementParameterSchema,
+      unit: z.string(),
+      series: z.array(
+        z.object({
+          name: z.string(),
+          latest: MeasurementSchema.nullable(),
+          hourly: z.array(MeasurementSchema),
+        })
+      ),
+    })
+  ),
+  unavailableParameters: z.array(MeasurementParameterSchema),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissStationMeasurements tool
+ */
+export const GetStationMeasurementsParamsSchema = z.object({
+  stationCode: z
+    .string()
+    .regex(/^[A-Za-z0-9]{3}$/, 'stationCode must be a three-letter station code')
+    .describe('MeteoSwiss station code, e.g. SMA for Zürich-Fluntern or GVE for Genève-Cointrin'),
+  parameters: z
+    .array(MeasurementParameterSchema)
+    .min(1)
+    .default(['temperature', 'precipitation', 'wind', 'humidity'])
+    .describe('Parameters to return'),
+  hours: z
+    .number()
+    .int()
+    .min(1)
+    .max(168)
+    .default(24)
+    .describe('Number of most recent hourly values to include in each series'),
+});
+
+export type MeasurementParameter = z.infer<typeof MeasurementParameterSchema>;
+export type ChartDataRaw = z.infer<typeof ChartDataRawSchema>;
+export type Measurement = z.infer<typeof MeasurementSchema>;
+export type StationMeasurements = z.infer<typeof StationMeasurementsSchema>;
+export type GetStationMeasurementsParams = z.infer<typeof GetStationMeasurementsParamsSchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { RegionSchema } from '../types/meteoswiss.js';
+import { TemperatureReadingSchema } from './weather-report.js';
+
+/**
+ * Forecast of one region for a day of the national overview
+ */
+export const RegionalDayForecastSchema = z.object({
+  day: z.string(),
+  description: z.string(),
+  temperature: z.string().optional(),
+  temperatures: z.array(TemperatureReadingSchema).optional(),
+});
+
+/**
+ * National overview schema
+ * Combines the weather reports of all regions, aligned by day
+ */
+export const NationalOverviewSchema = z.object({
+  language: z.enum(['de', 'fr', 'it', 'en']),
+  // Reports that could be loaded
+  reports: z.array(
+    z.object({
+      region: RegionSchema,
+      title: z.string(),
+      updatedAt: z.string(),
+      issuedAt: z.string().optional(),
+      version: z.string().optional(),
+      // Set when the upstream failed and the last good report of the region is used instead
+      stale: z.boolean().optional(),
+      // Seconds since the stale report was last fetched successfully
+      ageSeconds: z.number().optional(),
+      // Summary of the upstream error that caused the stale report
+      upstreamError: z.string().optional(),
+    })
+  ),
+  days: z.array(
+    z.object({
+      date: z.string().optional(),
+      // Day label of the first region with a forecast for the day
+      day: z.string(),
+      regions: z.object({
+        north: RegionalDayForecastSchema.optional(),
+        south: RegionalDayForecastSchema.optional(),
+        west: RegionalDayForecastSchema.optional(),
+      }),
+    })
+  ),
+  // Regions whose report could not be loaded
+  errors: z.array(z.object({ region: RegionSchema, message: z.string() })),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissNationalOverview tool
+ */
+export const GetNationalOverviewParamsSchema = z.object({
+  language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+});
+
+export type RegionalDayForecast = z.infer<typeof RegionalDayForecastSchema>;
+export type NationalOverview = z.infer<typeof NationalOverviewSchema>;
+export type GetNationalOverviewParams = z.infer<typeof GetNationalOverviewParamsSchema>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { MeasurementSchema } from './measured-values.js';
+
+/**
+ * Pollen taxa measured by the MeteoSwiss pollen network
+ */
+export const PollenTaxonSchema = z.enum([
+  'hazel',
+  'alder',
+  'ash',
+  'birch',
+  'beech',
+  'oak',
+  'grasses',
+  'ragweed',
+  'mugwort',
+]);
+
+/**
+ * Official MeteoSwiss pollen intensity classes
+ */
+export const PollenIntensitySchema = z.enum(['none', 'weak', 'moderate', 'strong', 'very-strong']);
+
+/**
+ * Pollen measurements schema
+ * Defines the structure for the pollen concentrations of one pollen station
+ */
+export const PollenMeasurementsSchema = z.object({
+  stationCode: z.string(),
+  stationName: z.string(),
+  canton: z.string(),
+  language: z.enum(['de', 'fr', 'it', 'en']),
+  unit: z.string(),
+  taxa: z.array(
+    z.object({
+      taxon: PollenTaxonSchema,
+      label: z.string(),
+      latest: MeasurementSchema,
+      // Mean of the last 24 hourly values, the basis of the intensity class
+      dailyMean: z.number(),
+      intensity: PollenIntensitySchema,
+      intensityLabel: z.string(),
+    })
+  ),
+  unavailableTaxa: z.array(PollenTaxonSchema),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissPollen tool
+ */
+export const GetPollenParamsSchema = z.object({
+  stationCode: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, 'stationCode must be a three-letter pollen station code')
+    .describe(
+      'MeteoSwiss pollen station code: PBS (Basel), PBE (Bern), PBU (Buchs SG), PCF (La Chaux-de-Fonds), PDS (Davos), PGE (Genève), PLS (Lausanne), PLO (Locarno), PLU (Lugano), PLZ (Luzern), PMU (Münsterlingen), PNE (Neuchâtel), PVI (Visp), PZH (Zürich)'
+    ),
+  taxa: z
+    .array(PollenTaxonSchema)
+    .min(1)
+    .default(['hazel', 'alder', 'ash', 'birch', 'beech', 'oak', 'grasses', 'ragweed', 'mugwort'])
+    .describe('Pollen taxa to return'),
+  language: z
+    .enum(['de', 'fr', 'it', 'en'])
+    .default('en')
+    .describe('Language of the taxon and intensity labels'),
+});
+
+export type PollenTaxon = z.infer<typeof PollenTaxonSchema>;
+export type PollenIntensity = z.infer<typeof PollenIntensitySchema>;
+export type PollenMeasurements = z.infer<typeof PollenMeasurementsSchema>;
+export type GetPollenParams = z.infer<typeof GetPollenParamsSchema>;
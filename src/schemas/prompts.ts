@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+
+const REGIONS = ['north', 'south', 'west'] as const;
+const LANGUAGES = ['de', 'fr', 'it', 'en'] as const;
+
+// Prompt arguments are strings, so region and language complete instead of using defaults.
+// Only top-level completable fields complete, which is why the daily briefing requires a language.
+const RegionArgSchema = completable(z.enum(REGIONS), (value) =>
+  REGIONS.filter((region) => region.startsWith(value))
+);
+const LanguageArgSchema = completable(z.enum(LANGUAGES), (value) =>
+  LANGUAGES.filter((language) => language.startsWith(value))
+);
+const OptionalLanguageArgSchema = z.enum(LANGUAGES).optional();
+
+/**
+ * Arguments schema for the daily-briefing prompt
+ */
+export const DailyBriefingPromptArgsSchema = z.object({
+  region: RegionArgSchema.describe('Forecast region: north, south or west'),
+  language: LanguageArgSchema.describe('Language of the report: de, fr, it or en'),
+});
+
+/**
+ * Arguments schema for the outdoor-activity prompt
+ */
+export const OutdoorActivityPromptArgsSchema = z.object({
+  location: z
+    .string()
+    .min(1)
+    .describe('Swiss locality, postal code or canton, e.g. "Lugano", "8004" or "Valais"'),
+  day: z.string().min(1).describe('Day of the activity, e.g. "Saturday" or "tomorrow"'),
+  activity: z
+    .string()
+    .optional()
+    .describe('The planned activity, e.g. "a hike" (default: time outdoors)'),
+  language: OptionalLanguageArgSchema.describe('Language of the report (default: en)'),
+});
+
+/**
+ * Arguments schema for the compare-north-south prompt
+ */
+export const CompareNorthSouthPromptArgsSchema = z.object({
+  trip: z.string().optional().describe('What the trip is about, e.g. "a weekend of hiking"'),
+  language: OptionalLanguageArgSchema.describe('Language of the reports (default: en)'),
+});
+
+export type DailyBriefingPromptArgs = z.infer<typeof DailyBriefingPromptArgsSchema>;
+export type OutdoorActivityPromptArgs = z.infer<typeof OutdoorActivityPromptArgsSchema>;
+export type CompareNorthSouthPromptArgs = z.infer<typeof CompareNorthSouthPromptArgsSchema>;
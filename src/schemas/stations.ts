@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { MeasurementParameterSchema } from './measured-values.js';
+
+/**
+ * Raw StationMeta schema
+ * Defines the structure of the MeteoSwiss station metadata file
+ */
+export const StationMetaRawSchema = z.object({
+  stations: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      canton: z.string(),
+      lat: z.number(),
+      lon: z.number(),
+      altitude: z.number(),
+      parameters: z.array(z.string()),
+    })
+  ),
+});
+
+/**
+ * Weather station schema
+ */
+export const StationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  canton: z.string(),
+  coordinates: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+  }),
+  altitude: z.number(),
+  parameters: z.array(z.string()),
+});
+
+/**
+ * Weather station with its distance to a searched location
+ */
+export const NearbyStationSchema = StationSchema.extend({
+  distanceKm: z.number(),
+  altitudeDifference: z.number().optional(),
+});
+
+/**
+ * Parameters schema for the meteoswissListStations tool
+ */
+export const ListStationsParamsSchema = z.object({
+  parameter: MeasurementParameterSchema.optional().describe(
+    'Only list stations that measure this parameter'
+  ),
+  canton: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, 'canton must be a two-letter canton code')
+    .optional()
+    .describe('Only list stations in this canton, e.g. ZH'),
+});
+
+/**
+ * Parameters schema for the meteoswissFindNearestStations tool
+ */
+export const FindNearestStationsParamsSchema = z.object({
+  latitude: z.number().min(-90).max(90).describe('Latitude of the location (WGS84)'),
+  longitude: z.number().min(-180).max(180).describe('Longitude of the location (WGS84)'),
+  parameter: MeasurementParameterSchema.optional().describe(
+    'Only consider stations that measure this parameter'
+  ),
+  altitude: z
+    .number()
+    .optional()
+    .describe('Altitude of the location in meters, required for maxAltitudeDiff'),
+  maxAltitudeDiff: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Only consider stations within this many meters of the given altitude'),
+  limit: z.number().int().min(1).max(20).default(3).describe('Maximum number of stations'),
+});
+
+export type StationMetaRaw = z.infer<typeof StationMetaRawSchema>;
+export type Station = z.infer<typeof StationSchema>;
+export type NearbyStation = z.infer<typeof NearbyStationSchema>;
+export type ListStationsParams = z.infer<typeof ListStationsParamsSchema>;
+export type FindNearestStationsParams = z.infer<typeof FindNearestStationsParamsSchema>;
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { RegionSchema } from '../types/meteoswiss.js';
+import { LocalizedLabelsSchema } from './weather-symbol.js';
+
+/**
+ * Hazard types of the MeteoSwiss warnings
+ */
+export const HazardTypeSchema = z.enum([
+  'wind',
+  'thunderstorm',
+  'rain',
+  'snow',
+  'slippery-roads',
+  'frost',
+  'flood',
+  'forest-fire',
+  'heat',
+]);
+
+/**
+ * Raw warnings schema
+ * Defines the structure of the JSON file in the MeteoSwiss warnings product
+ */
+export const WarningsRawSchema = z.object({
+  issueTime: z.number(),
+  warnings: z.array(
+    z.object({
+      id: z.string(),
+      warnType: z.number(),
+      warnLevel: z.number().int().min(1).max(5),
+      validFrom: z.number(),
+      validTo: z.number().nullable(),
+      regions: z.array(RegionSchema),
+      cantons: z.array(z.string()),
+      text: LocalizedLabelsSchema,
+    })
+  ),
+});
+
+/**
+ * Weather warning schema
+ */
+export const WeatherWarningSchema = z.object({
+  id: z.string(),
+  hazard: HazardTypeSchema,
+  hazardLabel: z.string(),
+  level: z.number().int().min(1).max(5),
+  levelLabel: z.string(),
+  validFrom: z.string(),
+  // null while the warning is valid until further notice
+  validTo: z.string().nullable(),
+  regions: z.array(RegionSchema),
+  cantons: z.array(z.string()),
+  text: z.string(),
+});
+
+/**
+ * Active warnings for a region or postal code
+ */
+export const WeatherWarningsSchema = z.object({
+  region: RegionSchema,
+  postalCode: z.string().optional(),
+  canton: z.string().optional(),
+  language: z.enum(['de', 'fr', 'it', 'en']),
+  issuedAt: z.string(),
+  // 0 if there are no active warnings
+  highestLevel: z.number().int().min(0).max(5),
+  warnings: z.array(WeatherWarningSchema),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissWeatherWarnings tool
+ */
+export const GetWeatherWarningsParamsSchema = z.object({
+  region: z
+    .enum(['north', 'south', 'west'])
+    .optional()
+    .describe('Forecast region; required unless postalCode is given'),
+  postalCode: z
+    .string()
+    .regex(/^\d{4}$/, 'postalCode must be a four-digit Swiss postal code')
+    .optional()
+    .describe(
+      'Swiss postal code instead of region, e.g. 6900 for Lugano; only the postal codes of the larger localities are supported'
+    ),
+  language: z
+    .enum(['de', 'fr', 'it', 'en'])
+    .default('en')
+    .describe('Language of the warning texts'),
+});
+
+export type HazardType = z.infer<typeof HazardTypeSchema>;
+export type WarningsRaw = z.infer<typeof WarningsRawSchema>;
+export type WeatherWarning = z.infer<typeof WeatherWarningSchema>;
+export type WeatherWarnings = z.infer<typeof WeatherWarningsSchema>;
+export type GetWeatherWarningsParams = z.infer<typeof GetWeatherWarningsParamsSchema>;
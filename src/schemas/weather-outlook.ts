@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Weather outlook schema
+ * Defines the structure for the medium-range weather outlook from MeteoSwiss,
+ * split into the periods the forecasters describe (e.g. "Monday to Wednesday")
+ */
+export const WeatherOutlookSchema = z.object({
+  region: z.enum(['north', 'south', 'west']),
+  language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+  title: z.string(),
+  updatedAt: z.string(),
+  content: z.string(),
+  periods: z.array(
+    z.object({
+      period: z.string(),
+      description: z.string(),
+    })
+  ),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissWeatherOutlook tool
+ */
+export const GetWeatherOutlookParamsSchema = z.object({
+  region: z.enum(['north', 'south', 'west']),
+  language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+});
+
+export type WeatherOutlook = z.infer<typeof WeatherOutlookSchema>;
+export type GetWeatherOutlookParams = z.infer<typeof GetWeatherOutlookParamsSchema>;
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { WeatherConditionSchema } from './weather-symbol.js';
+
+/**
+ * Raw Weather Pill schema
+ * Defines the structure of the JSON files in the MeteoSwiss weather-pill product,
+ * one file per location (postal code followed by two digits, e.g. 800100)
+ */
+export const WeatherPillRawSchema = z.object({
+  plz: z.number(),
+  name: z.string(),
+  lat: z.number(),
+  lon: z.number(),
+  altitude: z.number().optional(),
+  currentWeather: z.object({
+    time: z.number(),
+    weather_symbol_id: z.number(),
+    temperature_max: z.number(),
+    temperature_min: z.number(),
+  }),
+  forecast: z.array(
+    z.object({
+      dayDate: z.string(),
+      weather_symbol_id: z.number(),
+      temperature_max: z.number(),
+      temperature_min: z.number(),
+      precipitation: z.number().optional(),
+    })
+  ),
+});
+
+/**
+ * Local forecast schema
+ * Defines the structure for location forecasts based on the Weather Pill product
+ */
+export const LocalForecastSchema = z.object({
+  postalCode: z.string(),
+  locationName: z.string(),
+  coordinates: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+  }),
+  altitude: z.number().optional(),
+  current: z.object({
+    observedAt: z.string(),
+    temperatureHigh: z.number(),
+    temperatureLow: z.number(),
+    weatherSymbolId: z.number(),
+    condition: WeatherConditionSchema.optional(),
+  }),
+  forecast: z.array(
+    z.object({
+      date: z.string(),
+      temperatureHigh: z.number(),
+      temperatureLow: z.number(),
+      weatherSymbolId: z.number(),
+      condition: WeatherConditionSchema.optional(),
+      precipitation: z.number().optional(),
+    })
+  ),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissLocalForecast tool
+ */
+export const GetLocalForecastParamsSchema = z.object({
+  postalCode: z
+    .string()
+    .regex(/^\d{4}$/, 'postalCode must be a four-digit Swiss postal code')
+    .describe('Swiss postal code, e.g. 8001 for Zürich'),
+  language: z
+    .enum(['de', 'fr', 'it', 'en'])
+    .default('en')
+    .describe('Language of the weather condition labels'),
+});
+
+export type WeatherPillRaw = z.infer<typeof WeatherPillRawSchema>;
+export type LocalForecast = z.infer<typeof LocalForecastSchema>;
+export type GetLocalForecastParams = z.infer<typeof GetLocalForecastParamsSchema>;
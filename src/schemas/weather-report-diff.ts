@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// A report version given as version directory or as point in time
+const VersionReferenceSchema = z.union([
+  z.string().regex(/^version__\d{8}_\d{4}$/),
+  z.string().datetime({ offset: true }),
+]);
+
+/**
+ * Changes of a text between two report versions
+ */
+export const TextChangeSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  // Sentences only present in the newer version
+  addedSentences: z.array(z.string()),
+  // Sentences only present in the older version
+  removedSentences: z.array(z.string()),
+});
+
+/**
+ * Change of a temperature between two report versions
+ *
+ * Temperatures are matched by altitude, time of day and area. Values missing in one
+ * version belong to a temperature that was added or removed.
+ */
+export const TemperatureChangeSchema = z.object({
+  altitudeContext: z.string().optional(),
+  timeOfDay: z.enum(['early-morning', 'morning', 'afternoon', 'evening', 'night']).optional(),
+  area: z.string().optional(),
+  from: z.object({ minC: z.number().optional(), maxC: z.number().optional() }).optional(),
+  to: z.object({ minC: z.number().optional(), maxC: z.number().optional() }).optional(),
+  // Newer minus older value in °C, only if both versions have the value
+  minDeltaC: z.number().optional(),
+  maxDeltaC: z.number().optional(),
+});
+
+/**
+ * Weather report diff schema
+ * Defines the day-by-day changes between two versions of a weather report
+ */
+export const WeatherReportDiffSchema = z.object({
+  region: z.enum(['north', 'south', 'west']),
+  language: z.enum(['de', 'fr', 'it', 'en']),
+  from: z.object({
+    version: z.string().optional(),
+    updatedAt: z.string(),
+    issuedAt: z.string().optional(),
+  }),
+  to: z.object({
+    version: z.string().optional(),
+    updatedAt: z.string(),
+    issuedAt: z.string().optional(),
+  }),
+  days: z.array(
+    z.object({
+      day: z.string(),
+      date: z.string().optional(),
+      status: z.enum(['added', 'removed', 'changed', 'unchanged']),
+      description: TextChangeSchema.optional(),
+      temperature: TextChangeSchema.optional(),
+      // Temperatures whose values changed, only for days in both versions
+      temperatureChanges: z.array(TemperatureChangeSchema).optional(),
+    })
+  ),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    changed: z.number(),
+    unchanged: z.number(),
+  }),
+  source: z.literal('meteoswiss'),
+});
+
+/**
+ * Parameters schema for the meteoswissWeatherReportDiff tool
+ */
+export const GetWeatherReportDiffParamsSchema = z.object({
+  region: z.enum(['north', 'south', 'west']),
+  language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+  from: VersionReferenceSchema.describe(
+    'Older version: a version directory like version__20250426_0503, or the time it was valid (ISO 8601), e.g. 2025-04-26T08:00:00+02:00'
+  ),
+  to: VersionReferenceSchema.optional().describe(
+    'Newer version, same format as from; defaults to the current report'
+  ),
+});
+
+export type TextChange = z.infer<typeof TextChangeSchema>;
+export type TemperatureChange = z.infer<typeof TemperatureChangeSchema>;
+export type WeatherReportDiff = z.infer<typeof WeatherReportDiffSchema>;
+export type GetWeatherReportDiffParams = z.infer<typeof GetWeatherReportDiffParamsSchema>;
@@ -1,4 +1,45 @@
 import { z } from 'zod';
+import { ResolvedLocationSchema } from './location.js';
+
+/**
+ * Raw versions.json schema of the regional text products
+ *
+ * The product output names only the current version, earlier ones are not listed.
+ */
+export const TextProductVersionsRawSchema = z.object({
+  currentVersionDirectory: z.string(),
+});
+
+/**
+ * A published version of a weather report
+ */
+export const WeatherReportVersionSchema = z.object({
+  versionDirectory: z.string(),
+  // Publication time taken from the version directory name
+  publishedAt: z.string(),
+  current: z.boolean(),
+});
+
+/**
+ * Whether an upstream document or parsed report was served from the cache
+ */
+export const CacheStatusSchema = z.enum(['hit', 'miss', 'revalidated']);
+
+/**
+ * A temperature extracted from the forecast text of a day
+ */
+export const TemperatureReadingSchema = z.object({
+  // Lower bound in °C, same as maxC for single values, missing for "up to" values
+  minC: z.number().optional(),
+  maxC: z.number().optional(),
+  // "lowlands" or an altitude like "2000 m"
+  altitudeContext: z.string().optional(),
+  // Area the value is restricted to, as written in the report, e.g. "Valais"
+  area: z.string().optional(),
+  timeOfDay: z.enum(['early-morning', 'morning', 'afternoon', 'evening', 'night']).optional(),
+  // The part of the text the value was read from
+  text: z.string(),
+});
 
 /**
  * Weather report schema
@@ -9,14 +50,43 @@ export const WeatherReportSchema = z.object({
   language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
   title: z.string(),
   updatedAt: z.string(),
+  // Issue time parsed from updatedAt or the version directory, ISO 8601 in Zurich local time
+  issuedAt: z.string().optional(),
   content: z.string(),
   forecast: z.array(
     z.object({
       day: z.string(),
+      // Date of the day (YYYY-MM-DD) in Zurich local time
+      date: z.string().optional(),
       description: z.string(),
       temperature: z.string().optional(),
+      // Values parsed from the temperature text
+      temperatures: z.array(TemperatureReadingSchema).optional(),
     })
   ),
+  // Version directory the report was read from
+  version: z.string().optional(),
+  location: ResolvedLocationSchema.optional(),
+  // Cache status of versions.json and the parsed report, only for reports fetched over HTTP
+  cache: z
+    .object({
+      versions: CacheStatusSchema.optional(),
+      report: CacheStatusSchema,
+    })
+    .optional(),
+  // Origins that served versions.json and the report, only for reports fetched over HTTP
+  origin: z
+    .object({
+      versions: z.string().optional(),
+      report: z.string(),
+    })
+    .optional(),
+  // Set when the upstream failed and the last good report is returned instead
+  stale: z.boolean().optional(),
+  // Seconds since the stale report was last fetched successfully
+  ageSeconds: z.number().optional(),
+  // Summary of the upstream error that caused the stale report
+  upstreamError: z.string().optional(),
   source: z.literal('meteoswiss'),
 });
 
@@ -24,9 +94,38 @@ export const WeatherReportSchema = z.object({
  * Parameters schema for the meteoswissWeatherReport tool
  */
 export const GetWeatherReportParamsSchema = z.object({
-  region: z.enum(['north', 'south', 'west']),
+  region: z
+    .enum(['north', 'south', 'west'])
+    .optional()
+    .describe('Forecast region; required unless location is given'),
+  location: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Swiss locality, postal code or canton instead of region, e.g. "Lugano", "8004" or "Valais"'
+    ),
   language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+  version: z
+    .string()
+    .regex(
+      /^version__\d{8}_\d{4}$/,
+      'version must be a version directory like version__20250426_1508'
+    )
+    .optional()
+    .describe('Specific report version to return instead of the current one'),
+  asOf: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe(
+      'Return the report that was valid at this time (ISO 8601), e.g. 2025-04-26T08:00:00+02:00; only versions the server has seen published are available'
+    ),
 });
 
+export type TextProductVersionsRaw = z.infer<typeof TextProductVersionsRawSchema>;
+export type CacheStatus = z.infer<typeof CacheStatusSchema>;
+export type TemperatureReading = z.infer<typeof TemperatureReadingSchema>;
+export type WeatherReportVersion = z.infer<typeof WeatherReportVersionSchema>;
 export type WeatherReport = z.infer<typeof WeatherReportSchema>;
 export type GetWeatherReportParams = z.infer<typeof GetWeatherReportParamsSchema>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+/**
+ * Condition categories that MeteoSwiss weather symbols are grouped into
+ */
+export const WeatherConditionCategorySchema = z.enum([
+  'clear',
+  'partly-cloudy',
+  'cloudy',
+  'fog',
+  'showers',
+  'rain',
+  'sleet',
+  'snow',
+  'thunderstorm',
+]);
+
+/**
+ * Localized labels in all supported languages
+ */
+export const LocalizedLabelsSchema = z.object({
+  de: z.string(),
+  fr: z.string(),
+  it: z.string(),
+  en: z.string(),
+});
+
+/**
+ * Weather symbol schema
+ * Defines one entry of the MeteoSwiss weather symbol catalogue
+ * (ids 1-42 for day symbols, 101-142 for the corresponding night symbols)
+ */
+export const WeatherSymbolSchema = z.object({
+  id: z.number().int(),
+  daytime: z.boolean(),
+  category: WeatherConditionCategorySchema,
+  labels: LocalizedLabelsSchema,
+});
+
+/**
+ * Weather condition schema
+ * A weather symbol resolved to a single language, used wherever forecasts carry symbol ids
+ */
+export const WeatherConditionSchema = z.object({
+  symbolId: z.number().int(),
+  daytime: z.boolean(),
+  category: WeatherConditionCategorySchema,
+  label: z.string(),
+});
+
+/**
+ * Parameters schema for the meteoswissWeatherSymbol tool
+ */
+export const GetWeatherSymbolParamsSchema = z.object({
+  symbolId: z
+    .number()
+    .int()
+    .describe('MeteoSwiss weather_symbol_id, 1-42 for day and 101-142 for night symbols'),
+  language: z.enum(['de', 'fr', 'it', 'en']).default('en'),
+});
+
+export type WeatherConditionCategory = z.infer<typeof WeatherConditionCategorySchema>;
+export type LocalizedLabels = z.infer<typeof LocalizedLabelsSchema>;
+export type WeatherSymbol = z.infer<typeof WeatherSymbolSchema>;
+export type WeatherCondition = z.infer<typeof WeatherConditionSchema>;
+export type GetWeatherSymbolParams = z.infer<typeof GetWeatherSymbolParamsSchema>;
@@ -3,18 +3,95 @@
  * Transport-agnostic server logic
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { GetWeatherReportParamsSchema } from './schemas/weather-report.js';
+import { randomUUID } from 'node:crypto';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { GetWeatherReportParamsSchema, WeatherReportSchema } from './schemas/weather-report.js';
 import type { GetWeatherReportParams } from './schemas/weather-report.js';
-import { meteoswissWeatherReport } from './tools/meteoswiss-weather-report.js';
+import { GetWeatherReportDiffParamsSchema } from './schemas/weather-report-diff.js';
+import type { GetWeatherReportDiffParams } from './schemas/weather-report-diff.js';
+import { GetNationalOverviewParamsSchema } from './schemas/national-overview.js';
+import type { GetNationalOverviewParams } from './schemas/national-overview.js';
+import { GetWeatherOutlookParamsSchema } from './schemas/weather-outlook.js';
+import type { GetWeatherOutlookParams } from './schemas/weather-outlook.js';
+import { GetLocalForecastParamsSchema } from './schemas/weather-pill.js';
+import type { GetLocalForecastParams } from './schemas/weather-pill.js';
+import { GetStationMeasurementsParamsSchema } from './schemas/measured-values.js';
+import type { GetStationMeasurementsParams } from './schemas/measured-values.js';
+import { FindNearestStationsParamsSchema, ListStationsParamsSchema } from './schemas/stations.js';
+import type { FindNearestStationsParams, ListStationsParams } from './schemas/stations.js';
+import { GetWeatherWarningsParamsSchema } from './schemas/warnings.js';
+import type { GetWeatherWarningsParams } from './schemas/warnings.js';
+import { GetPollenParamsSchema } from './schemas/pollen.js';
+import type { GetPollenParams } from './schemas/pollen.js';
+import { GetWeatherSymbolParamsSchema } from './schemas/weather-symbol.js';
+import type { GetWeatherSymbolParams } from './schemas/weather-symbol.js';
+import {
+  CompareNorthSouthPromptArgsSchema,
+  DailyBriefingPromptArgsSchema,
+  OutdoorActivityPromptArgsSchema,
+} from './schemas/prompts.js';
+import type {
+  CompareNorthSouthPromptArgs,
+  DailyBriefingPromptArgs,
+  OutdoorActivityPromptArgs,
+} from './schemas/prompts.js';
+import {
+  formatWeatherReportText,
+  meteoswissWeatherReport,
+} from './tools/meteoswiss-weather-report.js';
+import { meteoswissWeatherReportDiff } from './tools/meteoswiss-weather-report-diff.js';
+import { meteoswissNationalOverview } from './tools/meteoswiss-national-overview.js';
+import { meteoswissWeatherOutlook } from './tools/meteoswiss-weather-outlook.js';
+import { meteoswissLocalForecast } from './tools/meteoswiss-local-forecast.js';
+import { meteoswissWeatherSymbol } from './tools/meteoswiss-weather-symbol.js';
+import { meteoswissStationMeasurements } from './tools/meteoswiss-station-measurements.js';
+import { meteoswissListStations } from './tools/meteoswiss-list-stations.js';
+import { meteoswissFindNearestStations } from './tools/meteoswiss-find-nearest-stations.js';
+import { meteoswissWeatherWarnings } from './tools/meteoswiss-weather-warnings.js';
+import { meteoswissPollen } from './tools/meteoswiss-pollen.js';
+import {
+  compareNorthSouthPrompt,
+  dailyBriefingPrompt,
+  outdoorActivityPrompt,
+} from './prompts/weather-prompts.js';
+import { WEATHER_SYMBOLS } from './data/weather-symbols.js';
+import { getLatestWeatherReportWithHtml } from './data/weather-report-data.js';
+import { LocationResolutionError } from './data/gazetteer.js';
+import { getDefaultDataSource } from './data/data-source.js';
+import type { DataSource } from './data/data-source.js';
+import {
+  LanguageSchema,
+  RegionSchema,
+  validateLanguage,
+  validateRegion,
+} from './types/meteoswiss.js';
 import { debugServer, debugTools } from './support/logging.js';
+import { resourceSubscriptions } from './support/resource-subscriptions.js';
+import type { ResourceSubscriptions } from './support/resource-subscriptions.js';
+import { weatherReportResourceUri } from './support/resource-uris.js';
 
 /**
- * Create and configure the MeteoSwiss MCP server
+ * Options for creating the MCP server
+ */
+export interface CreateServerOptions {
+  /** Registry the resource subscriptions of the server's session are kept in */
+  subscriptions?: ResourceSubscriptions;
+  /** Source the tools, resources and prompts read the MeteoSwiss products from */
+  dataSource?: DataSource;
+}
+
+/**
+ * Create and configure the MeteoSwiss MCP server for one session
+ * @param options - Options for the server
  * @returns Configured MCP server instance
  */
-export function createServer(): McpServer {
-  debugServer('Creating MCP server instance');
+export function createServer(options: CreateServerOptions = {}): McpServer {
+  const { subscriptions = resourceSubscriptions, dataSource = getDefaultDataSource() } = options;
+  debugServer('Creating MCP server instance reading from %s', dataSource.kind);
   const server = new McpServer({
     name: 'mcp-server-meteoswiss',
     version: '1.0.0',
@@ -36,26 +113,32 @@ export function createServer(): McpServer {
 
   // Register tools
   debugServer('Registering tool: meteoswissWeatherReport');
-  server.tool(
+  server.registerTool(
     'meteoswissWeatherReport',
-    'Retrieves the latest MeteoSwiss weather report for a specified region (Northern, Southern, Western parts of Switzerland), in German, French, Italian or English',
-    GetWeatherReportParamsSchema.shape,
+    {
+      description:
+        'Retrieves the latest MeteoSwiss weather report for a specified region (Northern, Southern, Western parts of Switzerland) or a Swiss location (locality, postal code or canton), in German, French, Italian or English; earlier versions of the report are available by version or point in time (asOf), as far back as the server has seen them published, since MeteoSwiss does not list its earlier versions',
+      inputSchema: GetWeatherReportParamsSchema.shape,
+      // The SDK checks the structured content against this schema before sending it
+      outputSchema: WeatherReportSchema.shape,
+    },
     async (params: GetWeatherReportParams) => {
       try {
         console.error(
-          `Processing meteoswissWeatherReport request for region: ${params.region}, language: ${params.language}`
+          `Processing meteoswissWeatherReport request for ${params.location ? `location: ${params.location}` : `region: ${params.region}`}, language: ${params.language}`
         );
         debugTools('meteoswissWeatherReport called with params: %O', params);
-        const weatherReport = await meteoswissWeatherReport(params);
+        const weatherReport = await meteoswissWeatherReport(params, dataSource);
         console.error('Successfully retrieved weather report');
         debugTools('Weather report retrieved successfully');
         return {
           content: [
             {
               type: 'text' as const,
-              text: JSON.stringify(weatherReport, null, 2),
+              text: formatWeatherReportText(weatherReport),
             },
           ],
+          structuredContent: weatherReport,
         };
       } catch (error: unknown) {
         console.error('Error in meteoswissWeatherReport tool:', error);
@@ -68,11 +151,538 @@ export function createServer(): McpServer {
               text: `Failed to get weather report: ${errorMessage}`,
             },
           ],
+          // The candidates of an ambiguous location, structured content must match the output schema
+          ...(error instanceof LocationResolutionError &&
+            error.candidates.length > 0 && { _meta: { candidates: error.candidates } }),
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissWeatherReportDiff');
+  server.tool(
+    'meteoswissWeatherReportDiff',
+    'Compares two versions of the MeteoSwiss weather report for a region and language day by day, e.g. what changed since this morning: added, removed and changed forecast text and temperatures',
+    GetWeatherReportDiffParamsSchema.shape,
+    async (params: GetWeatherReportDiffParams) => {
+      try {
+        console.error(
+          `Processing meteoswissWeatherReportDiff request for region: ${params.region}, language: ${params.language}, from: ${params.from}, to: ${params.to ?? 'current'}`
+        );
+        debugTools('meteoswissWeatherReportDiff called with params: %O', params);
+        const diff = await meteoswissWeatherReportDiff(params, dataSource);
+        console.error('Successfully compared weather reports');
+        debugTools('Weather report diff computed successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(diff, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissWeatherReportDiff tool:', error);
+        debugTools('Error in meteoswissWeatherReportDiff: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to compare weather reports: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissNationalOverview');
+  server.tool(
+    'meteoswissNationalOverview',
+    'Retrieves the current MeteoSwiss weather reports of all Swiss regions (north, south, west) at once, aligned by day, e.g. for the weather in Switzerland this weekend',
+    GetNationalOverviewParamsSchema.shape,
+    async (params: GetNationalOverviewParams) => {
+      try {
+        console.error(
+          `Processing meteoswissNationalOverview request for language: ${params.language}`
+        );
+        debugTools('meteoswissNationalOverview called with params: %O', params);
+        const overview = await meteoswissNationalOverview(params, dataSource);
+        console.error('Successfully retrieved national overview');
+        debugTools('National overview retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(overview, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissNationalOverview tool:', error);
+        debugTools('Error in meteoswissNationalOverview: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get national overview: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissWeatherOutlook');
+  server.tool(
+    'meteoswissWeatherOutlook',
+    'Retrieves the latest MeteoSwiss medium-range weather outlook (trend for the next 5-10 days) for a specified region (Northern, Southern, Western parts of Switzerland), split into periods, in German, French, Italian or English',
+    GetWeatherOutlookParamsSchema.shape,
+    async (params: GetWeatherOutlookParams) => {
+      try {
+        console.error(
+          `Processing meteoswissWeatherOutlook request for region: ${params.region}, language: ${params.language}`
+        );
+        debugTools('meteoswissWeatherOutlook called with params: %O', params);
+        const weatherOutlook = await meteoswissWeatherOutlook(params, dataSource);
+        console.error('Successfully retrieved weather outlook');
+        debugTools('Weather outlook retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(weatherOutlook, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissWeatherOutlook tool:', error);
+        debugTools('Error in meteoswissWeatherOutlook: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get weather outlook: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissLocalForecast');
+  server.tool(
+    'meteoswissLocalForecast',
+    'Retrieves the MeteoSwiss local forecast for a Swiss postal code: current high/low temperature and a 9-day forecast with weather symbol ids',
+    GetLocalForecastParamsSchema.shape,
+    async (params: GetLocalForecastParams) => {
+      try {
+        console.error(
+          `Processing meteoswissLocalForecast request for postal code: ${params.postalCode}, language: ${params.language}`
+        );
+        debugTools('meteoswissLocalForecast called with params: %O', params);
+        const localForecast = await meteoswissLocalForecast(params, dataSource);
+        console.error('Successfully retrieved local forecast');
+        debugTools('Local forecast retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(localForecast, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissLocalForecast tool:', error);
+        debugTools('Error in meteoswissLocalForecast: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get local forecast: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissWeatherSymbol');
+  server.tool(
+    'meteoswissWeatherSymbol',
+    'Describes a MeteoSwiss weather symbol id (weather_symbol_id, as used in forecasts) as a condition category and a label in German, French, Italian or English',
+    GetWeatherSymbolParamsSchema.shape,
+    async (params: GetWeatherSymbolParams) => {
+      try {
+        debugTools('meteoswissWeatherSymbol called with params: %O', params);
+        const condition = meteoswissWeatherSymbol(params);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(condition, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        debugTools('Error in meteoswissWeatherSymbol: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to describe weather symbol: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissStationMeasurements');
+  server.tool(
+    'meteoswissStationMeasurements',
+    'Retrieves the latest measured values and the hourly series (temperature, precipitation, wind, humidity, sunshine, snow, pressure, radiation) of a MeteoSwiss weather station, with units',
+    GetStationMeasurementsParamsSchema.shape,
+    async (params: GetStationMeasurementsParams) => {
+      try {
+        console.error(
+          `Processing meteoswissStationMeasurements request for station: ${params.stationCode}, parameters: ${params.parameters.join(', ')}`
+        );
+        debugTools('meteoswissStationMeasurements called with params: %O', params);
+        const measurements = await meteoswissStationMeasurements(params, dataSource);
+        console.error('Successfully retrieved station measurements');
+        debugTools('Station measurements retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(measurements, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissStationMeasurements tool:', error);
+        debugTools('Error in meteoswissStationMeasurements: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get station measurements: ${errorMessage}`,
+            },
+          ],
           isError: true,
         };
       }
     }
   );
 
+  debugServer('Registering tool: meteoswissListStations');
+  server.tool(
+    'meteoswissListStations',
+    'Lists the MeteoSwiss weather stations with id, name, canton, coordinates, altitude and measured parameters, optionally filtered by parameter or canton',
+    ListStationsParamsSchema.shape,
+    async (params: ListStationsParams) => {
+      try {
+        console.error(
+          `Processing meteoswissListStations request for parameter: ${params.parameter ?? 'any'}, canton: ${params.canton ?? 'any'}`
+        );
+        debugTools('meteoswissListStations called with params: %O', params);
+        const stations = await meteoswissListStations(params, dataSource);
+        console.error('Successfully listed stations');
+        debugTools('Stations listed successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(stations, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissListStations tool:', error);
+        debugTools('Error in meteoswissListStations: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to list stations: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissFindNearestStations');
+  server.tool(
+    'meteoswissFindNearestStations',
+    'Finds the MeteoSwiss weather stations closest to a location (latitude/longitude), optionally only stations measuring a given parameter and within a maximum altitude difference',
+    FindNearestStationsParamsSchema.shape,
+    async (params: FindNearestStationsParams) => {
+      try {
+        console.error(
+          `Processing meteoswissFindNearestStations request for location: ${params.latitude}, ${params.longitude}`
+        );
+        debugTools('meteoswissFindNearestStations called with params: %O', params);
+        const stations = await meteoswissFindNearestStations(params, dataSource);
+        console.error('Successfully found nearest stations');
+        debugTools('Nearest stations found successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(stations, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissFindNearestStations tool:', error);
+        debugTools('Error in meteoswissFindNearestStations: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to find nearest stations: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissWeatherWarnings');
+  server.tool(
+    'meteoswissWeatherWarnings',
+    'Retrieves the MeteoSwiss weather warnings in effect now (wind, thunderstorms, rain, snow, frost, forest fire, ...) with danger level 1-5, validity and text for a region (north, south, west) or a Swiss postal code, in German, French, Italian or English. Only the postal codes of the larger Swiss localities are supported, use the region for others',
+    GetWeatherWarningsParamsSchema.shape,
+    async (params: GetWeatherWarningsParams) => {
+      try {
+        console.error(
+          `Processing meteoswissWeatherWarnings request for ${params.postalCode ? `postal code: ${params.postalCode}` : `region: ${params.region}`}, language: ${params.language}`
+        );
+        debugTools('meteoswissWeatherWarnings called with params: %O', params);
+        const warnings = await meteoswissWeatherWarnings(params, dataSource);
+        console.error('Successfully retrieved weather warnings');
+        debugTools('Weather warnings retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(warnings, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissWeatherWarnings tool:', error);
+        debugTools('Error in meteoswissWeatherWarnings: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get weather warnings: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  debugServer('Registering tool: meteoswissPollen');
+  server.tool(
+    'meteoswissPollen',
+    'Retrieves the current pollen concentrations (birch, grasses, hazel, ash, alder, beech, oak, ragweed, mugwort) of a MeteoSwiss pollen station with the official intensity classes, labels in German, French, Italian or English',
+    GetPollenParamsSchema.shape,
+    async (params: GetPollenParams) => {
+      try {
+        console.error(
+          `Processing meteoswissPollen request for station: ${params.stationCode}, taxa: ${params.taxa.join(', ')}`
+        );
+        debugTools('meteoswissPollen called with params: %O', params);
+        const pollen = await meteoswissPollen(params, dataSource);
+        console.error('Successfully retrieved pollen measurements');
+        debugTools('Pollen measurements retrieved successfully');
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(pollen, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        console.error('Error in meteoswissPollen tool:', error);
+        debugTools('Error in meteoswissPollen: %O', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Failed to get pollen measurements: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register resources
+  debugServer('Registering resource: meteoswiss://weather-symbols');
+  server.resource(
+    'weather-symbols',
+    'meteoswiss://weather-symbols',
+    {
+      description:
+        'Catalogue of all MeteoSwiss weather symbol ids with condition category and labels in de, fr, it and en',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      debugServer('Reading resource: %s', uri.href);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(WEATHER_SYMBOLS, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // One weather report resource per region and language
+  const weatherReportResources = RegionSchema.options.flatMap((region) =>
+    LanguageSchema.removeDefault().options.map((language) => ({
+      uri: weatherReportResourceUri(region, language),
+      name: `Weather report ${region} (${language})`,
+      mimeType: 'application/json',
+    }))
+  );
+
+  debugServer('Registering resource: meteoswiss://weather-reports');
+  server.resource(
+    'weather-reports',
+    'meteoswiss://weather-reports',
+    {
+      description:
+        'Index of the weather report resources for all regions (north, south, west) and languages (de, fr, it, en)',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      debugServer('Reading resource: %s', uri.href);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(weatherReportResources, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  debugServer('Registering resource template: meteoswiss://weather-report/{region}/{language}');
+  server.resource(
+    'weather-report',
+    new ResourceTemplate('meteoswiss://weather-report/{region}/{language}', {
+      list: async () => ({ resources: weatherReportResources }),
+      complete: {
+        region: (value) => RegionSchema.options.filter((region) => region.startsWith(value)),
+        language: (value) =>
+          LanguageSchema.removeDefault().options.filter((language) => language.startsWith(value)),
+      },
+    }),
+    {
+      description:
+        'Current MeteoSwiss weather report of a region in a language, as parsed JSON and as the original XHTML',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      debugServer('Reading resource: %s', uri.href);
+      const region = validateRegion(String(variables.region));
+      const language = validateLanguage(String(variables.language));
+      const { report, html } = await getLatestWeatherReportWithHtml(region, language, dataSource);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(report, null, 2),
+          },
+          // Missing for a stale report whose XHTML is no longer cached
+          ...(html !== undefined
+            ? [{ uri: uri.href, mimeType: 'application/xhtml+xml', text: html }]
+            : []),
+        ],
+      };
+    }
+  );
+
+  // Register prompts
+  debugServer('Registering prompt: daily-briefing');
+  server.prompt(
+    'daily-briefing',
+    'Daily weather briefing for a region in a language, with the current weather report embedded',
+    DailyBriefingPromptArgsSchema.shape,
+    async (args: DailyBriefingPromptArgs) => dailyBriefingPrompt(args, dataSource)
+  );
+
+  debugServer('Registering prompt: outdoor-activity');
+  server.prompt(
+    'outdoor-activity',
+    'Plan an outdoor activity on a day at a Swiss location, with the weather report of its region embedded',
+    OutdoorActivityPromptArgsSchema.shape,
+    async (args: OutdoorActivityPromptArgs) => outdoorActivityPrompt(args, dataSource)
+  );
+
+  debugServer('Registering prompt: compare-north-south');
+  server.prompt(
+    'compare-north-south',
+    'Compare the weather north and south of the Alps for a trip, with both weather reports embedded',
+    CompareNorthSouthPromptArgsSchema.shape,
+    async (args: CompareNorthSouthPromptArgs) => compareNorthSouthPrompt(args, dataSource)
+  );
+
+  // Resource subscriptions, notified by the weather report poller; the server serves a single
+  // session, so its subscriptions are kept under one subscriber ID and removed when it closes
+  const subscriberId = randomUUID();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    debugServer('Subscribing to resource: %s', request.params.uri);
+    subscriptions.subscribe(request.params.uri, {
+      id: subscriberId,
+      notify: (uri) => server.server.sendResourceUpdated({ uri }),
+    });
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    debugServer('Unsubscribing from resource: %s', request.params.uri);
+    subscriptions.unsubscribe(request.params.uri, subscriberId);
+    return {};
+  });
+  server.server.onclose = () => {
+    debugServer('Server closed, removing resource subscriptions');
+    subscriptions.removeSubscriber(subscriberId);
+  };
+
   return server;
 }
@@ -0,0 +1,189 @@
+/**
+ * Per-host circuit breakers for upstream requests
+ *
+ * After repeated failures a host's breaker opens and requests fail fast instead of waiting
+ * through retries. After a cool-down one probe request is let through (half-open); its
+ * outcome closes the breaker again or keeps it open.
+ */
+
+import { debugHttp } from './logging.js';
+
+/**
+ * State of a circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options of the circuit breakers
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which the breaker opens */
+  failureThreshold: number;
+  /** How long the breaker stays open before a probe request is let through */
+  resetTimeoutMs: number;
+}
+
+/**
+ * State of a host's circuit breaker as shown on /health
+ */
+export type CircuitBreakerStatus = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the breaker opened, only while open or half-open */
+  openedAt?: string;
+  /** When the next probe request is let through, only while open */
+  retryAt?: string;
+  lastError?: string;
+};
+
+/**
+ * Error thrown instead of a request while the breaker of its host is open
+ */
+export class CircuitOpenError extends Error {
+  /** Host whose breaker is open */
+  public host: string;
+
+  constructor(host: string, retryAt: Date) {
+    super(`Upstream ${host} is unavailable, not retrying before ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.host = host;
+  }
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+/**
+ * Circuit breaker of a single host
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastError?: string;
+
+  constructor(
+    private host: string,
+    private getOptions: () => CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Checks whether a request may be sent
+   *
+   * @throws {CircuitOpenError} If the breaker is open, or half-open with a probe in flight
+   */
+  beforeRequest(): void {
+    if (this.state === 'open') {
+      if (Date.now() < this.retryAt()) {
+        throw new CircuitOpenError(this.host, new Date(this.retryAt()));
+      }
+      this.transition('half-open');
+    }
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        throw new CircuitOpenError(this.host, new Date(this.retryAt()));
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error: Error): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+    this.lastError = error.message;
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.consecutiveFailures >= this.getOptions().failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  status(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString() }),
+      ...(this.state === 'open' && { retryAt: new Date(this.retryAt()).toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  private retryAt(): number {
+    return this.openedAt + this.getOptions().resetTimeoutMs;
+  }
+
+  private transition(state: CircuitState): void {
+    debugHttp('Circuit breaker for %s: %s -> %s', this.host, this.state, state);
+    this.state = state;
+  }
+}
+
+/**
+ * The circuit breakers of all upstream hosts
+ */
+export class CircuitBreakers {
+  private options: CircuitBreakerOptions;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Changes the options, e.g. to the ones configured in the environment
+   */
+  configure(options: Partial<CircuitBreakerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Gets the breaker of the host of a URL
+   *
+   * @param url - The requested URL
+   * @returns The breaker of its host, including the port
+   */
+  forUrl(url: string): CircuitBreaker {
+    const host = new URL(url).host;
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, () => this.options);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Gets the state of the breakers of all hosts requested so far
+   */
+  status(): Record<string, CircuitBreakerStatus> {
+    return Object.fromEntries(
+      [...this.breakers].map(([host, breaker]) => [host, breaker.status()])
+    );
+  }
+
+  /**
+   * Forgets all hosts, closing their breakers
+   */
+  reset(): void {
+    this.breakers.clear();
+  }
+}
+
+/**
+ * Breakers shared by all requests of the server
+ */
+export const circuitBreakers = new CircuitBreakers();
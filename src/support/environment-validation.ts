@@ -1,6 +1,17 @@
 import { z } from 'zod';
 import { debugEnv } from './logging.js';
 
+/**
+ * Checks whether a value is an absolute http or https URL
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Environment variable schema and validation
  */
@@ -77,6 +88,113 @@ const envSchema = z.object({
     .refine((val) => !isNaN(val) && val > 0, {
       message: 'RATE_LIMIT_MAX_REQUESTS must be a positive number',
     }),
+  REPORT_POLL_INTERVAL_MS: z
+    .string()
+    .optional()
+    .default('300000') // 5 minutes
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'REPORT_POLL_INTERVAL_MS must be a non-negative number (0 disables polling)',
+    }),
+  CACHE_VERSIONS_TTL_MS: z
+    .string()
+    .optional()
+    .default('60000') // 1 minute
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'CACHE_VERSIONS_TTL_MS must be a non-negative number (0 revalidates every time)',
+    }),
+  CACHE_MAX_ENTRIES: z
+    .string()
+    .optional()
+    .default('500')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'CACHE_MAX_ENTRIES must be a non-negative number (0 disables the cache)',
+    }),
+  UPSTREAM_BASE_URL: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || isHttpUrl(val), {
+      message: 'UPSTREAM_BASE_URL must be an http or https URL',
+    })
+    .describe('Base URL of the MeteoSwiss product output, e.g. of a caching mirror'),
+  UPSTREAM_MIRRORS: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((url) => url.trim())
+        .filter((url) => url !== '')
+    )
+    .refine((urls) => urls.every(isHttpUrl), {
+      message: 'UPSTREAM_MIRRORS must be a comma-separated list of http or https URLs',
+    })
+    .describe('Base URLs tried in turn when the upstream base URL fails'),
+  LOCAL_MIRROR_DIR: z
+    .string()
+    .optional()
+    .describe('Directory with a copy of the product output, read instead of the upstream'),
+  HTTP_RETRIES: z
+    .string()
+    .optional()
+    .default('3')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'HTTP_RETRIES must be a non-negative number',
+    }),
+  HTTP_RETRY_BASE_DELAY_MS: z
+    .string()
+    .optional()
+    .default('1000') // 1 second
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'HTTP_RETRY_BASE_DELAY_MS must be a non-negative number',
+    }),
+  HTTP_RETRY_MAX_DELAY_MS: z
+    .string()
+    .optional()
+    .default('10000') // 10 seconds
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val >= 0, {
+      message: 'HTTP_RETRY_MAX_DELAY_MS must be a non-negative number',
+    }),
+  HTTP_RETRY_DEADLINE_MS: z
+    .string()
+    .optional()
+    .default('30000') // 30 seconds
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val > 0, {
+      message: 'HTTP_RETRY_DEADLINE_MS must be a positive number',
+    }),
+  CIRCUIT_FAILURE_THRESHOLD: z
+    .string()
+    .optional()
+    .default('5')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val > 0, {
+      message: 'CIRCUIT_FAILURE_THRESHOLD must be a positive number',
+    }),
+  CIRCUIT_RESET_TIMEOUT_MS: z
+    .string()
+    .optional()
+    .default('30000') // 30 seconds
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => !isNaN(val) && val > 0, {
+      message: 'CIRCUIT_RESET_TIMEOUT_MS must be a positive number',
+    }),
+  LAST_GOOD_REPORTS_DIR: z
+    .string()
+    .optional()
+    .describe('Directory the last good weather reports are persisted to, empty for memory only'),
+  VERSION_HISTORY_DIR: z
+    .string()
+    .optional()
+    .describe(
+      'Directory the weather report versions seen upstream are persisted to, empty for memory only'
+    ),
   CORS_ORIGIN: z.string().optional().default('*'),
   REQUEST_SIZE_LIMIT: z.string().optional().default('10mb'),
   PUBLIC_URL: z
@@ -104,6 +222,20 @@ export function validateEnv(): EnvConfig {
     SESSION_TIMEOUT_MS: process.env.SESSION_TIMEOUT_MS,
     RATE_LIMIT_WINDOW_MS: process.env.RATE_LIMIT_WINDOW_MS,
     RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
+    REPORT_POLL_INTERVAL_MS: process.env.REPORT_POLL_INTERVAL_MS,
+    CACHE_VERSIONS_TTL_MS: process.env.CACHE_VERSIONS_TTL_MS,
+    CACHE_MAX_ENTRIES: process.env.CACHE_MAX_ENTRIES,
+    UPSTREAM_BASE_URL: process.env.UPSTREAM_BASE_URL,
+    UPSTREAM_MIRRORS: process.env.UPSTREAM_MIRRORS,
+    LOCAL_MIRROR_DIR: process.env.LOCAL_MIRROR_DIR,
+    HTTP_RETRIES: process.env.HTTP_RETRIES,
+    HTTP_RETRY_BASE_DELAY_MS: process.env.HTTP_RETRY_BASE_DELAY_MS,
+    HTTP_RETRY_MAX_DELAY_MS: process.env.HTTP_RETRY_MAX_DELAY_MS,
+    HTTP_RETRY_DEADLINE_MS: process.env.HTTP_RETRY_DEADLINE_MS,
+    CIRCUIT_FAILURE_THRESHOLD: process.env.CIRCUIT_FAILURE_THRESHOLD,
+    CIRCUIT_RESET_TIMEOUT_MS: process.env.CIRCUIT_RESET_TIMEOUT_MS,
+    LAST_GOOD_REPORTS_DIR: process.env.LAST_GOOD_REPORTS_DIR,
+    VERSION_HISTORY_DIR: process.env.VERSION_HISTORY_DIR,
     CORS_ORIGIN: process.env.CORS_ORIGIN,
     REQUEST_SIZE_LIMIT: process.env.REQUEST_SIZE_LIMIT,
     PUBLIC_URL: process.env.PUBLIC_URL,
@@ -127,6 +259,20 @@ export function validateEnv(): EnvConfig {
           `  SESSION_TIMEOUT_MS=300000\n` +
           `  RATE_LIMIT_WINDOW_MS=60000\n` +
           `  RATE_LIMIT_MAX_REQUESTS=100\n` +
+          `  REPORT_POLL_INTERVAL_MS=300000\n` +
+          `  CACHE_VERSIONS_TTL_MS=60000\n` +
+          `  CACHE_MAX_ENTRIES=500\n` +
+          `  UPSTREAM_BASE_URL=https://www.meteoswiss.admin.ch/product/output\n` +
+          `  UPSTREAM_MIRRORS=https://mirror1.example.com/product/output,https://mirror2.example.com/product/output\n` +
+          `  LOCAL_MIRROR_DIR=/var/lib/meteoswiss-mirror\n` +
+          `  HTTP_RETRIES=3\n` +
+          `  HTTP_RETRY_BASE_DELAY_MS=1000\n` +
+          `  HTTP_RETRY_MAX_DELAY_MS=10000\n` +
+          `  HTTP_RETRY_DEADLINE_MS=30000\n` +
+          `  CIRCUIT_FAILURE_THRESHOLD=5\n` +
+          `  CIRCUIT_RESET_TIMEOUT_MS=30000\n` +
+          `  LAST_GOOD_REPORTS_DIR=/var/cache/mcp-server-meteoswiss\n` +
+          `  VERSION_HISTORY_DIR=/var/lib/mcp-server-meteoswiss/versions\n` +
           `  CORS_ORIGIN=https://example.com\n` +
           `  REQUEST_SIZE_LIMIT=10mb`
       );
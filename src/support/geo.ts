@@ -0,0 +1,32 @@
+/**
+ * Geographic helpers for working with station and location coordinates
+ */
+
+// Mean earth radius in kilometers
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Calculates the great-circle distance between two WGS84 coordinates (haversine formula)
+ *
+ * @param latitudeA - Latitude of the first point in degrees
+ * @param longitudeA - Longitude of the first point in degrees
+ * @param latitudeB - Latitude of the second point in degrees
+ * @param longitudeB - Longitude of the second point in degrees
+ * @returns The distance in kilometers
+ */
+export function distanceKm(
+  latitudeA: number,
+  longitudeA: number,
+  latitudeB: number,
+  longitudeB: number
+): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(latitudeB - latitudeA);
+  const deltaLongitude = toRadians(longitudeB - longitudeA);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(latitudeA)) *
+      Math.cos(toRadians(latitudeB)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -3,17 +3,23 @@
  * Provides methods for making HTTP requests with error handling and retries
  */
 
+import { circuitBreakers } from './circuit-breaker.js';
 import { debugHttp } from './logging.js';
+import { isRetryable, parseRetryAfter, resolveRetryPolicy, retryDelay } from './retry-policy.js';
+import type { RetryPolicy } from './retry-policy.js';
 
 /**
  * Options for HTTP requests
  */
 export type HttpRequestOptions = {
-  /** Number of retry attempts */
-  retries?: number;
-  /** Delay between retries in milliseconds */
-  retryDelay?: number;
-  /** Request timeout in milliseconds */
+  /** Retry policy of the call site, overriding the configured default policy */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Time in milliseconds since the epoch after which no attempt starts or continues, to share
+   * one deadline between requests; defaults to the deadline of the retry policy from now
+   */
+  deadline?: number;
+  /** Timeout of a single attempt in milliseconds */
   timeout?: number;
   /** Request headers */
   headers?: Record<string, string>;
@@ -27,12 +33,15 @@ export class HttpRequestError extends Error {
   public statusCode?: number;
   /** Original URL that was requested */
   public url: string;
+  /** Delay requested by the `Retry-After` header of a 429 or 503 response */
+  public retryAfterMs?: number;
 
-  constructor(message: string, url: string, statusCode?: number) {
+  constructor(message: string, url: string, statusCode?: number, retryAfterMs?: number) {
     super(message);
     this.name = 'HttpRequestError';
     this.url = url;
     this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -40,8 +49,6 @@ export class HttpRequestError extends Error {
  * Default options for HTTP requests
  */
 const DEFAULT_OPTIONS: HttpRequestOptions = {
-  retries: 3,
-  retryDelay: 1000,
   timeout: 5000,
   headers: {
     Accept: 'application/json, text/html',
@@ -49,6 +56,23 @@ const DEFAULT_OPTIONS: HttpRequestOptions = {
   },
 };
 
+/**
+ * Validators of a cached response, sent back to revalidate it
+ */
+export type HttpValidators = {
+  /** Value of the ETag header */
+  etag?: string;
+  /** Value of the Last-Modified header */
+  lastModified?: string;
+};
+
+/**
+ * Result of a conditional request
+ */
+export type ConditionalResponse =
+  | { notModified: true; validators: HttpValidators }
+  | { notModified: false; text: string; validators: HttpValidators };
+
 /**
  * Fetches data from a URL with retry logic and error handling
  *
@@ -61,28 +85,99 @@ export async function fetchWithRetry(
   url: string,
   options: HttpRequestOptions = {}
 ): Promise<string> {
-  const { retries = DEFAULT_OPTIONS.retries, retryDelay = DEFAULT_OPTIONS.retryDelay } = options;
-  debugHttp('Fetching URL: %s with options: %O', url, options);
+  const { text } = await requestWithRetry(url, options);
+  return text;
+}
+
+/**
+ * Fetches data from a URL unless it is unchanged since a cached response
+ *
+ * Sends `If-None-Match` and `If-Modified-Since` for the validators of the cached response.
+ *
+ * @param url - The URL to fetch data from
+ * @param validators - The validators of the cached response
+ * @param options - Request options
+ * @returns The new response text, or `notModified` if the cached response is still valid
+ * @throws {HttpRequestError} If the request fails after all retries
+ */
+export async function fetchConditional(
+  url: string,
+  validators: HttpValidators,
+  options: HttpRequestOptions = {}
+): Promise<ConditionalResponse> {
+  const response = await requestWithRetry(url, {
+    ...options,
+    headers: {
+      ...options.headers,
+      ...(validators.etag && { 'If-None-Match': validators.etag }),
+      ...(validators.lastModified && { 'If-Modified-Since': validators.lastModified }),
+    },
+  });
+
+  const responseValidators: HttpValidators = {
+    etag: response.headers.get('etag') ?? validators.etag,
+    lastModified: response.headers.get('last-modified') ?? validators.lastModified,
+  };
+  if (response.status === 304) {
+    debugHttp('Not modified: %s', url);
+    return { notModified: true, validators: responseValidators };
+  }
+  return { notModified: false, text: response.text, validators: responseValidators };
+}
 
+/**
+ * Requests a URL with retry logic, accepting successful and not modified responses
+ *
+ * Retries follow the retry policy: server errors, rate limiting, network errors and timeouts
+ * are retried with backoff or after the `Retry-After` delay, client errors are not, and no
+ * attempt starts or continues after the deadline.
+ *
+ * @param url - The URL to request
+ * @param options - Request options
+ * @returns The status, headers and text of the response
+ * @throws {HttpRequestError} If the request fails after all retries
+ */
+async function requestWithRetry(
+  url: string,
+  options: HttpRequestOptions
+): Promise<{ status: number; headers: Headers; text: string }> {
+  const policy = resolveRetryPolicy(options.retry);
+  debugHttp('Fetching URL: %s with options: %O, retry policy: %O', url, options, policy);
+
+  const breaker = circuitBreakers.forUrl(url);
+  const deadline = options.deadline ?? Date.now() + policy.deadlineMs;
   let lastError: Error | null = null;
 
-  for (let attempt = 0; attempt <= retries!; attempt++) {
-    debugHttp('Attempt %d/%d for URL: %s', attempt + 1, retries! + 1, url);
+  for (let attempt = 0; attempt <= policy.retries; attempt++) {
+    debugHttp('Attempt %d/%d for URL: %s', attempt + 1, policy.retries + 1, url);
+    try {
+      breaker.beforeRequest();
+    } catch (error) {
+      debugHttp('Circuit open, not requesting %s', url);
+      // Fail fast, with the error of the previous attempt if the breaker opened while retrying
+      if (attempt === 0) {
+        throw error;
+      }
+      break;
+    }
     try {
       const startTime = Date.now();
+      // An attempt never runs past the deadline
+      const timeout = Math.min(options.timeout ?? Infinity, deadline - startTime);
       const response = await fetch(url, {
         headers: { ...DEFAULT_OPTIONS.headers, ...options.headers },
-        signal: options.timeout ? AbortSignal.timeout(options.timeout) : undefined,
+        signal: AbortSignal.timeout(Math.max(0, timeout)),
       });
       const duration = Date.now() - startTime;
 
       debugHttp('Response received in %dms: %d %s', duration, response.status, response.statusText);
 
-      if (!response.ok) {
+      if (!response.ok && response.status !== 304) {
         const error = new HttpRequestError(
           `HTTP error ${response.status}: ${response.statusText}`,
           url,
-          response.status
+          response.status,
+          parseRetryAfter(response.status, response.headers.get('retry-after'))
         );
         debugHttp('HTTP error: %O', error);
         throw error;
@@ -90,21 +185,36 @@ export async function fetchWithRetry(
 
       const text = await response.text();
       debugHttp('Successfully fetched %d bytes from %s', text.length, url);
-      return text;
+      breaker.recordSuccess();
+      return { status: response.status, headers: response.headers, text };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       debugHttp('Request failed on attempt %d: %O', attempt + 1, error);
+      if (isUpstreamFailure(lastError)) {
+        breaker.recordFailure(lastError);
+      } else {
+        breaker.recordSuccess();
+      }
+
+      const httpError = lastError instanceof HttpRequestError ? lastError : undefined;
+      if (!isRetryable(httpError?.statusCode)) {
+        debugHttp('Not retrying HTTP error %d for URL: %s', httpError?.statusCode, url);
+        break;
+      }
 
       // Don't retry on the last attempt
-      if (attempt === retries) {
+      if (attempt === policy.retries) {
         debugHttp('All retry attempts exhausted for URL: %s', url);
         break;
       }
 
-      // Add some jitter to retry delay
-      const jitteredDelay = retryDelay! + Math.random() * 200;
-      debugHttp('Retrying in %dms...', Math.round(jitteredDelay));
-      await new Promise((resolve) => setTimeout(resolve, jitteredDelay));
+      const delay = retryDelay(policy, attempt, httpError?.retryAfterMs);
+      if (Date.now() + delay >= deadline) {
+        debugHttp('Not retrying in %dms, past the deadline for URL: %s', Math.round(delay), url);
+        break;
+      }
+      debugHttp('Retrying in %dms...', Math.round(delay));
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
   }
 
@@ -117,6 +227,19 @@ export async function fetchWithRetry(
   throw finalError;
 }
 
+/**
+ * Checks whether an error means the upstream host is unavailable, as opposed to a bad request
+ *
+ * @param error - The error of a request
+ * @returns True for network errors, timeouts, server errors and rate limiting
+ */
+function isUpstreamFailure(error: Error): boolean {
+  if (!(error instanceof HttpRequestError) || error.statusCode === undefined) {
+    return true;
+  }
+  return error.statusCode >= 500 || error.statusCode === 429;
+}
+
 /**
  * Fetches JSON data from a URL and parses it
  *
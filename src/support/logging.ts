@@ -18,6 +18,7 @@ export const debugTransport = debugModule('mcp:transport');
 export const debugTools = debugModule('mcp:tools');
 export const debugData = debugModule('mcp:data');
 export const debugHttp = debugModule('mcp:http');
+export const debugCache = debugModule('mcp:cache');
 export const debugSession = debugModule('mcp:session');
 export const debugEnv = debugModule('mcp:env');
 
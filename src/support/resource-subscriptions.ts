@@ -0,0 +1,86 @@
+import { debugSession } from './logging.js';
+
+/**
+ * A session subscribed to resource updates
+ */
+export interface ResourceSubscriber {
+  id: string;
+  notify: (uri: string) => Promise<void>;
+}
+
+/**
+ * Tracks which sessions are subscribed to which resources and notifies them of updates
+ */
+export class ResourceSubscriptions {
+  private subscribers = new Map<string, Map<string, ResourceSubscriber>>();
+
+  /**
+   * Subscribe a session to updates of a resource
+   */
+  subscribe(uri: string, subscriber: ResourceSubscriber): void {
+    const subscribers = this.subscribers.get(uri) ?? new Map<string, ResourceSubscriber>();
+    subscribers.set(subscriber.id, subscriber);
+    this.subscribers.set(uri, subscribers);
+    debugSession('Session %s subscribed to %s', subscriber.id, uri);
+  }
+
+  /**
+   * Unsubscribe a session from updates of a resource
+   */
+  unsubscribe(uri: string, subscriberId: string): void {
+    const subscribers = this.subscribers.get(uri);
+    subscribers?.delete(subscriberId);
+    if (subscribers?.size === 0) {
+      this.subscribers.delete(uri);
+    }
+    debugSession('Session %s unsubscribed from %s', subscriberId, uri);
+  }
+
+  /**
+   * Remove all subscriptions of a session, e.g. when it is closed
+   */
+  removeSubscriber(subscriberId: string): void {
+    for (const uri of [...this.subscribers.keys()]) {
+      this.unsubscribe(uri, subscriberId);
+    }
+  }
+
+  /**
+   * Check whether any session is subscribed to a resource
+   */
+  isSubscribed(uri: string): boolean {
+    return this.subscribers.has(uri);
+  }
+
+  /**
+   * Notify all sessions subscribed to a resource that it was updated
+   *
+   * @returns The number of sessions notified
+   */
+  async notify(uri: string): Promise<number> {
+    const subscribers = [...(this.subscribers.get(uri)?.values() ?? [])];
+    const results = await Promise.allSettled(
+      subscribers.map((subscriber) => subscriber.notify(uri))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        debugSession(
+          'Failed to notify session %s about %s: %O',
+          subscribers[index]?.id,
+          uri,
+          result.reason
+        );
+      }
+    });
+
+    const notified = results.filter((result) => result.status === 'fulfilled').length;
+    debugSession('Notified %d sessions about update of %s', notified, uri);
+    return notified;
+  }
+}
+
+/**
+ * Subscriptions shared by all sessions of the server
+ */
+export const resourceSubscriptions = new ResourceSubscriptions();
@@ -0,0 +1,12 @@
+import type { Language, Region } from '../types/meteoswiss.js';
+
+/**
+ * Gets the URI of the weather report resource of a region and language
+ *
+ * @param region - The region of the report
+ * @param language - The language of the report
+ * @returns The resource URI, e.g. `meteoswiss://weather-report/north/de`
+ */
+export function weatherReportResourceUri(region: Region, language: Language): string {
+  return `meteoswiss://weather-report/${region}/${language}`;
+}
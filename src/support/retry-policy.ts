@@ -0,0 +1,104 @@
+/**
+ * Retry policy for upstream requests
+ *
+ * Failed requests are retried with exponential backoff and full jitter: the delay before
+ * retry n is random between 0 and `baseDelayMs * 2^n`, capped at `maxDelayMs`. A
+ * `Retry-After` header on 429 and 503 responses replaces the computed delay. Client errors
+ * are never retried, and no attempt starts after the deadline of the request.
+ */
+
+import { debugHttp } from './logging.js';
+
+/**
+ * Options of the retry policy
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Upper bound of the delay before the first retry, doubled for every further retry */
+  baseDelayMs: number;
+  /** Upper bound of the delay before any retry */
+  maxDelayMs: number;
+  /** Time after which no further attempt is made, across all attempts */
+  deadlineMs: number;
+}
+
+// Status codes of failures that may succeed when repeated
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Status codes whose Retry-After header is honored
+const RETRY_AFTER_STATUS_CODES = new Set([429, 503]);
+
+let defaultPolicy: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  deadlineMs: 30000,
+};
+
+/**
+ * Changes the default policy, e.g. to the one configured in the environment
+ */
+export function configureRetryPolicy(policy: Partial<RetryPolicy>): void {
+  defaultPolicy = { ...defaultPolicy, ...policy };
+  debugHttp('Retry policy configured: %O', defaultPolicy);
+}
+
+/**
+ * Gets the policy of a request
+ *
+ * @param overrides - Options of the call site that differ from the default policy
+ * @returns The default policy with the overrides applied
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return { ...defaultPolicy, ...overrides };
+}
+
+/**
+ * Checks whether a failed request may be retried
+ *
+ * @param statusCode - The HTTP status of the response, undefined for network errors and timeouts
+ * @returns True for network errors, timeouts, server errors and rate limiting
+ */
+export function isRetryable(statusCode: number | undefined): boolean {
+  return statusCode === undefined || RETRYABLE_STATUS_CODES.has(statusCode);
+}
+
+/**
+ * Computes the delay before a retry
+ *
+ * @param policy - The retry policy
+ * @param retry - The number of the retry, starting at 0
+ * @param retryAfterMs - The delay requested by the upstream, if any
+ * @returns The delay in milliseconds
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.random() * cap;
+}
+
+/**
+ * Reads the `Retry-After` header of a 429 or 503 response
+ *
+ * @param statusCode - The HTTP status of the response
+ * @param header - The value of the header, in seconds or as an HTTP date
+ * @param now - The current time in milliseconds
+ * @returns The requested delay in milliseconds, or undefined if there is none
+ */
+export function parseRetryAfter(
+  statusCode: number,
+  header: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!header || !RETRY_AFTER_STATUS_CODES.has(statusCode)) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,44 @@
+/**
+ * Coalescing of concurrent identical requests
+ *
+ * While a request for a key is in flight, further calls for the same key wait for it
+ * instead of starting their own. Once it settles the key is forgotten, so results and
+ * errors are never kept beyond the concurrent callers.
+ */
+
+import { debugCache } from './logging.js';
+
+/**
+ * Shares one in-flight promise between concurrent calls for the same key
+ */
+export class SingleFlight {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Runs a request, or joins the one in flight for the same key
+   *
+   * @param key - Identifies identical requests, e.g. a URL
+   * @param request - Starts the request if none is in flight for the key
+   * @returns The result of the shared request
+   */
+  run<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      debugCache('Joining in-flight request: %s', key);
+      return pending as Promise<T>;
+    }
+
+    const promise = request().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Cache for documents fetched from the MeteoSwiss product output and values parsed from them
+ *
+ * Documents in version directories never change and are kept until evicted. Other documents,
+ * like versions.json, are served from the cache for a short time and then revalidated with
+ * their ETag or Last-Modified date. Concurrent requests for the same document or value share
+ * one download or computation.
+ */
+
+import type { CacheStatus } from '../schemas/weather-report.js';
+import { fetchConditional, fetchWithRetry, HttpRequestError } from './http-communication.js';
+import type { HttpRequestOptions, HttpValidators } from './http-communication.js';
+import { debugCache } from './logging.js';
+import { SingleFlight } from './single-flight.js';
+
+/**
+ * Options of the upstream cache
+ */
+export interface UpstreamCacheOptions {
+  /** How long versions.json and other changing documents are used without revalidation */
+  versionsTtlMs: number;
+  /** Maximum number of documents and of parsed values kept each, 0 disables the cache */
+  maxEntries: number;
+}
+
+/**
+ * Options for a cached request
+ */
+export type CachedRequestOptions = HttpRequestOptions & {
+  /** The document never changes, e.g. because it is in a version directory */
+  immutable?: boolean;
+};
+
+type CachedDocument = {
+  text: string;
+  validators: HttpValidators;
+  fetchedAt: number;
+};
+
+const DEFAULT_OPTIONS: UpstreamCacheOptions = {
+  versionsTtlMs: 60000,
+  maxEntries: 500,
+};
+
+/**
+ * Caches upstream documents and parsed values, evicting the least recently used entries
+ */
+export class UpstreamCache {
+  private options: UpstreamCacheOptions;
+  private documents = new Map<string, CachedDocument>();
+  private values = new Map<string, unknown>();
+  private pendingDocuments = new SingleFlight();
+  private pendingValues = new SingleFlight();
+
+  constructor(options: Partial<UpstreamCacheOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Changes the options, e.g. to the ones configured in the environment
+   */
+  configure(options: Partial<UpstreamCacheOptions>): void {
+    this.options = { ...this.options, ...options };
+    debugCache('Cache configured: %O', this.options);
+    this.evict(this.documents);
+    this.evict(this.values);
+  }
+
+  /**
+   * Fetches a document, from the cache if it is still valid
+   *
+   * @param url - The URL of the document
+   * @param options - Request options
+   * @returns The document text and whether it came from the cache
+   */
+  async fetchText(
+    url: string,
+    options: CachedRequestOptions = {}
+  ): Promise<{ text: string; cache: CacheStatus }> {
+    const { immutable = false, ...requestOptions } = options;
+    if (this.options.maxEntries === 0) {
+      return this.pendingDocuments.run(url, async () => ({
+        text: await fetchWithRetry(url, requestOptions),
+        cache: 'miss' as const,
+      }));
+    }
+
+    const cached = this.documents.get(url);
+    if (cached && (immutable || Date.now() - cached.fetchedAt < this.options.versionsTtlMs)) {
+      debugCache('Cache hit: %s', url);
+      this.store(this.documents, url, cached);
+      return { text: cached.text, cache: 'hit' };
+    }
+
+    return this.pendingDocuments.run(url, () => this.fetchDocument(url, cached, requestOptions));
+  }
+
+  /**
+   * Revalidates a cached document, or fetches it for the first time
+   *
+   * @param url - The URL of the document
+   * @param cached - The cached document, if any
+   * @param requestOptions - Request options
+   * @returns The document text and whether the cached document was still valid
+   */
+  private async fetchDocument(
+    url: string,
+    cached: CachedDocument | undefined,
+    requestOptions: HttpRequestOptions
+  ): Promise<{ text: string; cache: CacheStatus }> {
+    const response = await fetchConditional(url, cached?.validators ?? {}, requestOptions);
+    const text = response.notModified ? cached?.text : response.text;
+    if (text === undefined) {
+      throw new HttpRequestError(`Not modified without a cached response: ${url}`, url, 304);
+    }
+    const cache: CacheStatus = response.notModified ? 'revalidated' : 'miss';
+    debugCache('Cache %s: %s', cache, url);
+    this.store(this.documents, url, {
+      text,
+      validators: response.validators,
+      fetchedAt: Date.now(),
+    });
+    return { text, cache };
+  }
+
+  /**
+   * Gets a value derived from immutable documents, computing it on the first request
+   *
+   * @param key - The key of the value, e.g. the product, region, language and version directory
+   * @param compute - Computes the value if it is not cached
+   * @returns The value and whether it came from the cache
+   */
+  async remember<T>(
+    key: string,
+    compute: () => Promise<T>
+  ): Promise<{ value: T; cache: Extract<CacheStatus, 'hit' | 'miss'> }> {
+    if (this.values.has(key)) {
+      debugCache('Cache hit: %s', key);
+      const value = this.values.get(key) as T;
+      this.store(this.values, key, value);
+      return { value, cache: 'hit' };
+    }
+
+    debugCache('Cache miss: %s', key);
+    const value = await this.pendingValues.run(key, compute);
+    if (this.options.maxEntries > 0) {
+      this.store(this.values, key, value);
+    }
+    return { value, cache: 'miss' };
+  }
+
+  /**
+   * Removes all cached documents and values
+   */
+  clear(): void {
+    this.documents.clear();
+    this.values.clear();
+  }
+
+  private store<V>(entries: Map<string, V>, key: string, value: V): void {
+    // Re-inserting moves the key to the end, so the first key is the least recently used
+    entries.delete(key);
+    entries.set(key, value);
+    this.evict(entries);
+  }
+
+  private evict<V>(entries: Map<string, V>): void {
+    for (const key of entries.keys()) {
+      if (entries.size <= this.options.maxEntries) {
+        break;
+      }
+      debugCache('Evicting %s', key);
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Cache shared by all sessions of the server
+ */
+export const upstreamCache = new UpstreamCache();
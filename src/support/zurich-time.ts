@@ -0,0 +1,74 @@
+/**
+ * Time zone helpers for the local time of MeteoSwiss products (Europe/Zurich)
+ */
+
+const ZURICH_TIME_ZONE = 'Europe/Zurich';
+
+const zurichFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: ZURICH_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+/**
+ * Gets the offset of Zurich local time to UTC at a point in time
+ *
+ * @param date - The point in time
+ * @returns The offset in minutes, 60 in winter and 120 in summer
+ */
+function zurichOffsetMinutes(date: Date): number {
+  const parts = zurichFormat.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((candidate) => candidate.type === type)?.value);
+  const localAsUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return Math.round((localAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a Zurich local time into a point in time
+ *
+ * @param year - The year
+ * @param month - The month (1-12)
+ * @param day - The day of the month
+ * @param hour - The hour (0-23)
+ * @param minute - The minute
+ * @returns The point in time
+ */
+export function fromZurichLocalTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number
+): Date {
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const estimate = new Date(localAsUtc - zurichOffsetMinutes(new Date(localAsUtc)) * 60000);
+  // The offset of the estimate is exact unless the estimate crossed a daylight saving change
+  return new Date(localAsUtc - zurichOffsetMinutes(estimate) * 60000);
+}
+
+/**
+ * Formats a point in time as ISO 8601 in Zurich local time, e.g. 2025-04-26T07:02:00+02:00
+ *
+ * @param date - The point in time
+ * @returns The local time with its offset
+ */
+export function toZurichIsoString(date: Date): string {
+  const offset = zurichOffsetMinutes(date);
+  const local = new Date(date.getTime() + offset * 60000).toISOString().slice(0, 19);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  return `${local}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
@@ -0,0 +1,41 @@
+import type { FindNearestStationsParams, NearbyStation } from '../schemas/stations.js';
+import { findNearestStations } from '../data/station-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissFindNearestStations MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the nearest stations, closest first
+ */
+export async function meteoswissFindNearestStations(
+  params: FindNearestStationsParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<NearbyStation[]> {
+  const { latitude, longitude, ...options } = params;
+  debugTools('meteoswissFindNearestStations called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const stations = await findNearestStations(latitude, longitude, options, source);
+    const duration = Date.now() - startTime;
+    debugTools('Found %d nearby stations in %dms', stations.length, duration);
+    return stations;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissFindNearestStations tool:', error);
+    debugTools('Nearest station search failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to find stations near ${latitude}, ${longitude}`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
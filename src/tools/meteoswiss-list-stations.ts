@@ -0,0 +1,40 @@
+import type { ListStationsParams, Station } from '../schemas/stations.js';
+import { listStations } from '../data/station-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissListStations MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the matching stations
+ */
+export async function meteoswissListStations(
+  params: ListStationsParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<Station[]> {
+  debugTools('meteoswissListStations called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const stations = await listStations(params, source);
+    const duration = Date.now() - startTime;
+    debugTools('Listed %d stations in %dms', stations.length, duration);
+    return stations;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissListStations tool:', error);
+    debugTools('Listing stations failed after %dms: %O', duration, error);
+
+    let errorMessage = 'Failed to list stations';
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
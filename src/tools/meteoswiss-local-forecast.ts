@@ -0,0 +1,46 @@
+import type { GetLocalForecastParams, LocalForecast } from '../schemas/weather-pill.js';
+import { getLatestLocalForecast } from '../data/weather-pill-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissLocalForecast MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the local forecast
+ */
+export async function meteoswissLocalForecast(
+  params: GetLocalForecastParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<LocalForecast> {
+  const { postalCode, language } = params;
+  debugTools('meteoswissLocalForecast called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const forecast = await getLatestLocalForecast(postalCode, language, source);
+    const duration = Date.now() - startTime;
+    debugTools('Local forecast retrieved successfully in %dms', duration);
+    debugTools(
+      'Forecast summary: location=%s, forecast_days=%d',
+      forecast.locationName,
+      forecast.forecast.length
+    );
+    return forecast;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissLocalForecast tool:', error);
+    debugTools('Local forecast failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get local forecast for postal code "${postalCode}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,47 @@
+import type { GetNationalOverviewParams, NationalOverview } from '../schemas/national-overview.js';
+import { getNationalOverview } from '../data/national-overview.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissNationalOverview MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the overview of all regions
+ */
+export async function meteoswissNationalOverview(
+  params: GetNationalOverviewParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<NationalOverview> {
+  const { language } = params;
+  debugTools('meteoswissNationalOverview called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const overview = await getNationalOverview(language, source);
+    const duration = Date.now() - startTime;
+    debugTools('National overview retrieved successfully in %dms', duration);
+    debugTools(
+      'Overview summary: regions=%d, days=%d, errors=%d',
+      overview.reports.length,
+      overview.days.length,
+      overview.errors.length
+    );
+    return overview;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissNationalOverview tool:', error);
+    debugTools('National overview failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get national overview in language "${language}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
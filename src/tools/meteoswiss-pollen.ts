@@ -0,0 +1,47 @@
+import type { GetPollenParams, PollenMeasurements } from '../schemas/pollen.js';
+import { getPollenMeasurements } from '../data/pollen-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissPollen MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the pollen measurements
+ */
+export async function meteoswissPollen(
+  params: GetPollenParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<PollenMeasurements> {
+  const { stationCode, taxa, language } = params;
+  debugTools('meteoswissPollen called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const pollen = await getPollenMeasurements(stationCode, taxa, language, source);
+    const duration = Date.now() - startTime;
+    debugTools('Pollen measurements retrieved successfully in %dms', duration);
+    debugTools(
+      'Pollen summary: station=%s, taxa=%d, unavailable=%d',
+      pollen.stationCode,
+      pollen.taxa.length,
+      pollen.unavailableTaxa.length
+    );
+    return pollen;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissPollen tool:', error);
+    debugTools('Pollen measurements failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get pollen measurements for station "${stationCode}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
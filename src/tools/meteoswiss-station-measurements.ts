@@ -0,0 +1,50 @@
+import type {
+  GetStationMeasurementsParams,
+  StationMeasurements,
+} from '../schemas/measured-values.js';
+import { getStationMeasurements } from '../data/measured-values-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissStationMeasurements MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the station measurements
+ */
+export async function meteoswissStationMeasurements(
+  params: GetStationMeasurementsParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<StationMeasurements> {
+  const { stationCode, parameters, hours } = params;
+  debugTools('meteoswissStationMeasurements called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const measurements = await getStationMeasurements(stationCode, parameters, hours, source);
+    const duration = Date.now() - startTime;
+    debugTools('Station measurements retrieved successfully in %dms', duration);
+    debugTools(
+      'Measurements summary: station=%s, parameters=%d, unavailable=%d',
+      measurements.stationCode,
+      measurements.measurements.length,
+      measurements.unavailableParameters.length
+    );
+    return measurements;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissStationMeasurements tool:', error);
+    debugTools('Station measurements failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get measurements for station "${stationCode}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,42 @@
+import type { GetWeatherOutlookParams, WeatherOutlook } from '../schemas/weather-outlook.js';
+import { getLatestWeatherOutlook } from '../data/weather-outlook-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissWeatherOutlook MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the weather outlook
+ */
+export async function meteoswissWeatherOutlook(
+  params: GetWeatherOutlookParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherOutlook> {
+  const { region, language } = params;
+  debugTools('meteoswissWeatherOutlook called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const outlook = await getLatestWeatherOutlook(region, language, source);
+    const duration = Date.now() - startTime;
+    debugTools('Weather outlook retrieved successfully in %dms', duration);
+    debugTools('Outlook summary: title=%s, period_count=%d', outlook.title, outlook.periods.length);
+    return outlook;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissWeatherOutlook tool:', error);
+    debugTools('Weather outlook failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get weather outlook for region "${region}" in language "${language}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
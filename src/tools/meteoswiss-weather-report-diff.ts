@@ -0,0 +1,52 @@
+import type {
+  GetWeatherReportDiffParams,
+  WeatherReportDiff,
+} from '../schemas/weather-report-diff.js';
+import { getWeatherReportDiff } from '../data/weather-report-diff.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissWeatherReportDiff MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the changes between the two report versions
+ */
+export async function meteoswissWeatherReportDiff(
+  params: GetWeatherReportDiffParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherReportDiff> {
+  const { region, language, from, to } = params;
+  debugTools('meteoswissWeatherReportDiff called with params: %O', params);
+
+  const startTime = Date.now();
+  try {
+    const diff = await getWeatherReportDiff(region, language, from, to, source);
+    const duration = Date.now() - startTime;
+    debugTools('Weather report diff computed successfully in %dms', duration);
+    debugTools(
+      'Diff summary: from=%s, to=%s, added=%d, removed=%d, changed=%d',
+      diff.from.version,
+      diff.to.version,
+      diff.summary.added,
+      diff.summary.removed,
+      diff.summary.changed
+    );
+    return diff;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissWeatherReportDiff tool:', error);
+    debugTools('Weather report diff failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to compare weather reports for region "${region}" in language "${language}"`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
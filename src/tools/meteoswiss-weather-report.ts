@@ -1,38 +1,109 @@
+import { WeatherReportSchema } from '../schemas/weather-report.js';
 import type { GetWeatherReportParams, WeatherReport } from '../schemas/weather-report.js';
-import { getLatestWeatherReport } from '../data/weather-report-data.js';
+import { getWeatherReport } from '../data/weather-report-data.js';
+import { LocationResolutionError, resolveLocation } from '../data/gazetteer.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
 import { debugTools } from '../support/logging.js';
 
 /**
  * Implementation of the meteoswissWeatherReport MCP tool
  *
- * @param params - The parameters for the tool
+ * @param params - The parameters for the tool, with either a region or a location
+ * @param source - The data source to read the data from
  * @returns A Promise that resolves to the weather report
  */
 export async function meteoswissWeatherReport(
-  params: GetWeatherReportParams
+  params: GetWeatherReportParams,
+  source: DataSource = getDefaultDataSource()
 ): Promise<WeatherReport> {
-  const { region, language } = params;
+  const { location, language, version, asOf } = params;
   debugTools('meteoswissWeatherReport called with params: %O', params);
 
+  if (params.region && location) {
+    throw new Error('Specify either region or location, not both');
+  }
+  if (!params.region && !location) {
+    throw new Error('Either region or location is required');
+  }
+
   const startTime = Date.now();
   try {
-    const report = await getLatestWeatherReport(region, language);
+    const resolvedLocation = location ? resolveLocation(location) : undefined;
+    const region = resolvedLocation?.region ?? params.region;
+    if (!region) {
+      throw new Error('No region for the weather report');
+    }
+    if (resolvedLocation) {
+      debugTools('Location "%s" resolved to region %s', location, region);
+    }
+
+    const report = await getWeatherReport(region, language, { version, asOf }, source);
     const duration = Date.now() - startTime;
     debugTools('Weather report retrieved successfully in %dms', duration);
-    debugTools('Report summary: title=%s, forecast_count=%d', report.title, report.forecast.length);
-    return report;
+    debugTools(
+      'Report summary: title=%s, version=%s, forecast_count=%d',
+      report.title,
+      report.version,
+      report.forecast.length
+    );
+    return validateWeatherReport(
+      resolvedLocation ? { ...report, location: resolvedLocation } : report
+    );
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Error in meteoswissWeatherReport tool:', error);
     debugTools('Weather report failed after %dms: %O', duration, error);
 
-    let errorMessage = `Failed to get weather report for region "${region}" in language "${language}"`;
+    let errorMessage = `Failed to get weather report for ${location ? `location "${location}"` : `region "${params.region}"`} in language "${language}"`;
 
     // Add more detailed information if available
     if (error instanceof Error) {
       errorMessage += `: ${error.message}`;
     }
 
+    // Keep the candidates of an ambiguous location for the tool result
+    if (error instanceof LocationResolutionError) {
+      throw new LocationResolutionError(errorMessage, error.candidates);
+    }
     throw new Error(errorMessage);
   }
 }
+
+/**
+ * Validates a weather report against the output schema of the tool
+ *
+ * @param report - The parsed weather report
+ * @returns The validated report
+ * @throws {Error} If the report does not match the schema, e.g. after a parser regression
+ */
+function validateWeatherReport(report: WeatherReport): WeatherReport {
+  const result = WeatherReportSchema.safeParse(report);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'report'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid weather report: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Renders a weather report as plain text for clients that do not read structured content
+ *
+ * @param report - The weather report
+ * @returns The title, update time and one paragraph per forecast day
+ */
+export function formatWeatherReportText(report: WeatherReport): string {
+  const days = report.forecast.map((day) =>
+    [`${day.day}${day.date ? ` (${day.date})` : ''}`, day.description, day.temperature]
+      .filter((line) => line)
+      .join('\n')
+  );
+  const location = report.location
+    ? `Location: ${report.location.name} (${report.location.canton}), region ${report.region}`
+    : undefined;
+  return [report.title, report.updatedAt, location, ...days]
+    .filter((paragraph) => paragraph)
+    .join('\n\n');
+}
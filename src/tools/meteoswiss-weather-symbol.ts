@@ -0,0 +1,26 @@
+import type { GetWeatherSymbolParams, WeatherCondition } from '../schemas/weather-symbol.js';
+import { describeWeatherSymbol } from '../data/weather-symbols.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissWeatherSymbol MCP tool
+ *
+ * @param params - The parameters for the tool
+ * @returns The weather condition described by the symbol
+ * @throws {Error} If the symbol id is not part of the catalogue
+ */
+export function meteoswissWeatherSymbol(params: GetWeatherSymbolParams): WeatherCondition {
+  const { symbolId, language } = params;
+  debugTools('meteoswissWeatherSymbol called with params: %O', params);
+
+  const condition = describeWeatherSymbol(symbolId, language);
+  if (!condition) {
+    debugTools('Unknown weather symbol id: %d', symbolId);
+    throw new Error(
+      `Unknown weather symbol id ${symbolId}, expected 1-42 (day) or 101-142 (night)`
+    );
+  }
+
+  debugTools('Weather symbol %d resolved to category %s', symbolId, condition.category);
+  return condition;
+}
@@ -0,0 +1,55 @@
+import type { GetWeatherWarningsParams, WeatherWarnings } from '../schemas/warnings.js';
+import { getActiveWarnings } from '../data/warnings-data.js';
+import { getDefaultDataSource } from '../data/data-source.js';
+import type { DataSource } from '../data/data-source.js';
+import { debugTools } from '../support/logging.js';
+
+/**
+ * Implementation of the meteoswissWeatherWarnings MCP tool
+ *
+ * @param params - The parameters for the tool, with either a region or a postal code
+ * @param source - The data source to read the data from
+ * @returns A Promise that resolves to the active warnings
+ */
+export async function meteoswissWeatherWarnings(
+  params: GetWeatherWarningsParams,
+  source: DataSource = getDefaultDataSource()
+): Promise<WeatherWarnings> {
+  const { region, postalCode, language } = params;
+  debugTools('meteoswissWeatherWarnings called with params: %O', params);
+
+  if (region && postalCode) {
+    throw new Error('Specify either region or postalCode, not both');
+  }
+  const area = postalCode ? { postalCode } : region ? { region } : undefined;
+  if (!area) {
+    throw new Error('Either region or postalCode is required');
+  }
+
+  const startTime = Date.now();
+  try {
+    const warnings = await getActiveWarnings(area, language, undefined, source);
+    const duration = Date.now() - startTime;
+    debugTools('Weather warnings retrieved successfully in %dms', duration);
+    debugTools(
+      'Warnings summary: region=%s, warnings=%d, highest_level=%d',
+      warnings.region,
+      warnings.warnings.length,
+      warnings.highestLevel
+    );
+    return warnings;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error in meteoswissWeatherWarnings tool:', error);
+    debugTools('Weather warnings failed after %dms: %O', duration, error);
+
+    let errorMessage = `Failed to get weather warnings for ${postalCode ? `postal code "${postalCode}"` : `region "${region}"`}`;
+
+    // Add more detailed information if available
+    if (error instanceof Error) {
+      errorMessage += `: ${error.message}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
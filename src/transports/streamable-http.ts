@@ -13,6 +13,7 @@ import type { EnvConfig } from '../support/environment-validation.js';
 import { renderHomepage } from '../support/markdown-rendering.js';
 import { debugTransport } from '../support/logging.js';
 import { getMcpEndpointUrl } from '../support/url-generation.js';
+import { circuitBreakers } from '../support/circuit-breaker.js';
 import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 
 interface StreamableHttpOptions {
@@ -30,9 +31,13 @@ export interface HttpServerInterface {
 
 /**
  * Create HTTP server with SSE transport
+ *
+ * @param createMcpServer - Creates the MCP server of a session; an MCP server sends to the
+ *   transport it was connected to last, so every SSE session needs its own
+ * @param options - Options of the HTTP server
  */
 export async function createHttpServer(
-  mcpServer: McpServer,
+  createMcpServer: () => McpServer,
   options: StreamableHttpOptions
 ): Promise<HttpServerInterface> {
   const { port = 3000, host = 'localhost', config } = options;
@@ -201,7 +206,7 @@ export async function createHttpServer(
       // Note: connect() automatically calls start() on the transport
       try {
         debugTransport('Connecting transport to MCP server for session: %s', transport.sessionId);
-        await mcpServer.connect(transport);
+        await createMcpServer().connect(transport);
         debugTransport('Transport connected successfully for session: %s', transport.sessionId);
       } catch (error) {
         console.error(`Failed to connect transport: ${error}`);
@@ -258,10 +263,15 @@ export async function createHttpServer(
 
   // Health check
   app.get('/health', (_req: Request, res: Response) => {
+    const upstream = circuitBreakers.status();
     const health = {
-      status: 'ok',
+      // Degraded while requests to an upstream host fail fast
+      status: Object.values(upstream).some((breaker) => breaker.state !== 'closed')
+        ? 'degraded'
+        : 'ok',
       sessions: sessionManager.size,
       endpoint: getMcpEndpointUrl(config),
+      upstream,
     };
     debugTransport('Health check requested, response: %O', health);
     res.json(health);
@@ -0,0 +1,92 @@
+import { circuitBreakers, CircuitOpenError } from '../../src/support/circuit-breaker.js';
+import { fetchWithRetry } from '../../src/support/http-communication.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for the per-host circuit breakers against a local fake upstream
+ */
+describe('Circuit breakers', () => {
+  let upstream: FakeUpstream;
+  let healthy: boolean;
+  let url: string;
+
+  const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    healthy = true;
+    upstream = new FakeUpstream((request) => {
+      if (request.path.endsWith('missing.json')) {
+        return { status: 404 };
+      }
+      return healthy ? { body: '{"ok":true}' } : { status: 503 };
+    });
+    await upstream.start();
+    url = `${upstream.url}/weather-report/de/north/versions.json`;
+    circuitBreakers.configure({ failureThreshold: 2, resetTimeoutMs: 100 });
+  });
+
+  afterEach(async () => {
+    circuitBreakers.reset();
+    await upstream.stop();
+  });
+
+  test('should open after consecutive failures and fail fast', async () => {
+    healthy = false;
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow('HTTP error 503');
+    expect(circuitBreakers.status()[new URL(url).host]?.state).toBe('closed');
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow('HTTP error 503');
+
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow(CircuitOpenError);
+    expect(upstream.requests).toHaveLength(2);
+    expect(circuitBreakers.status()[new URL(url).host]).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      lastError: 'HTTP error 503: Service Unavailable',
+    });
+  });
+
+  test('should close again when the probe after the reset timeout succeeds', async () => {
+    healthy = false;
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow();
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow();
+
+    healthy = true;
+    await wait(150);
+    expect(await fetchWithRetry(url, { retry: { retries: 0 } })).toBe('{"ok":true}');
+    expect(circuitBreakers.status()[new URL(url).host]).toEqual({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  test('should open again when the probe fails', async () => {
+    healthy = false;
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow();
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow();
+
+    await wait(150);
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow('HTTP error 503');
+    expect(circuitBreakers.status()[new URL(url).host]?.state).toBe('open');
+    await expect(fetchWithRetry(url, { retry: { retries: 0 } })).rejects.toThrow(CircuitOpenError);
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  test('should stop retrying once the breaker opens', async () => {
+    circuitBreakers.configure({ resetTimeoutMs: 60000 });
+    healthy = false;
+    await expect(fetchWithRetry(url, { retry: { retries: 5, baseDelayMs: 1 } })).rejects.toThrow(
+      'HTTP error 503'
+    );
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  test('should not count client errors as upstream failures', async () => {
+    const missing = `${upstream.url}/weather-report/de/north/missing.json`;
+    for (let i = 0; i < 3; i++) {
+      await expect(fetchWithRetry(missing, { retry: { retries: 0 } })).rejects.toThrow(
+        'HTTP error 404'
+      );
+    }
+    expect(circuitBreakers.status()[new URL(missing).host]?.state).toBe('closed');
+  });
+});
@@ -0,0 +1,185 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  createDataSource,
+  FixtureDataSource,
+  HttpDataSource,
+  MirrorDataSource,
+} from '../../src/data/data-source.js';
+import type { DataSource } from '../../src/data/data-source.js';
+import { TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import {
+  DEFAULT_LAST_GOOD_REPORTS_DIR,
+  lastGoodReports,
+} from '../../src/data/last-good-reports.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { upstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for servers reading the products through an injected data source
+ */
+describe('Data sources', () => {
+  let client: Client;
+
+  async function connect(dataSource: DataSource): Promise<void> {
+    client = await connectInMemoryClient({ dataSource });
+  }
+
+  async function callReport(args: Record<string, unknown>): Promise<any> {
+    return client.callTool({ name: 'meteoswissWeatherReport', arguments: args });
+  }
+
+  afterEach(async () => {
+    await client?.close();
+  });
+
+  test('should choose the source from the options', () => {
+    expect(createDataSource().kind).toBe('http');
+    expect(createDataSource({ useTestFixtures: true, mirrorDir: '/tmp/mirror' }).kind).toBe(
+      'fixtures'
+    );
+    expect(createDataSource({ mirrorDir: '/tmp/mirror' }).kind).toBe('mirror');
+  });
+
+  test('should read the reports from the fixtures', async () => {
+    await connect(new FixtureDataSource());
+
+    const result = await callReport({ region: 'north', language: 'de' });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent.version).toBe('version__20250426_1508');
+    expect(result.structuredContent.origin).toBeUndefined();
+  });
+
+  describe('local mirror', () => {
+    let mirrorDir: string;
+
+    beforeEach(async () => {
+      // A mirror holding only the northern report in German, one version behind the fixtures
+      mirrorDir = await fs.mkdtemp(path.join(os.tmpdir(), 'meteoswiss-mirror-'));
+      const productDir = path.join(mirrorDir, 'weather-report/de/north');
+      await fs.cp(
+        path.join(TEST_FIXTURES_ROOT, 'weather-report/de/north/version__20250426_1104'),
+        path.join(productDir, 'version__20250426_1104'),
+        { recursive: true }
+      );
+      await fs.writeFile(
+        path.join(productDir, 'versions.json'),
+        JSON.stringify({ currentVersionDirectory: 'version__20250426_1104' })
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(mirrorDir, { recursive: true, force: true });
+    });
+
+    test('should read the reports from the mirror directory', async () => {
+      await connect(new MirrorDataSource(mirrorDir));
+
+      const result = await callReport({ region: 'north', language: 'de' });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent.version).toBe('version__20250426_1104');
+    });
+
+    test('should list only the versions in the mirror', async () => {
+      await connect(new MirrorDataSource(mirrorDir));
+
+      const result = await callReport({
+        region: 'north',
+        language: 'de',
+        version: 'version__20250426_1508',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Unknown weather report version version__20250426_1508 for north in de, available: version__20250426_1104'
+      );
+    });
+
+    test('should fail for reports missing from the mirror', async () => {
+      await connect(new MirrorDataSource(mirrorDir));
+
+      const result = await callReport({ region: 'south', language: 'it' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Not found in the mirror directory');
+    });
+  });
+
+  describe('HTTP', () => {
+    let upstream: FakeUpstream;
+
+    beforeAll(() => {
+      lastGoodReports.configure('');
+    });
+
+    afterAll(() => {
+      lastGoodReports.configure(DEFAULT_LAST_GOOD_REPORTS_DIR);
+    });
+
+    beforeEach(async () => {
+      upstreamCache.clear();
+      // Serve the fixtures like the product output
+      upstream = new FakeUpstream(async ({ path: productPath }) => {
+        try {
+          return { body: await fs.readFile(path.join(TEST_FIXTURES_ROOT, productPath), 'utf-8') };
+        } catch {
+          return { status: 404 };
+        }
+      });
+      await upstream.start();
+    });
+
+    afterEach(async () => {
+      circuitBreakers.reset();
+      upstreamCache.clear();
+      await upstream.stop();
+    });
+
+    test('should fetch each document once for parallel tool calls', async () => {
+      await connect(new HttpDataSource({ baseUrl: upstream.url, mirrors: [] }));
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => callReport({ region: 'north', language: 'de' }))
+      );
+
+      for (const result of results) {
+        expect(result.isError).toBeFalsy();
+        expect(result.structuredContent.version).toBe('version__20250426_1508');
+        expect(result.structuredContent.origin).toEqual({
+          versions: upstream.url,
+          report: upstream.url,
+        });
+      }
+      expect(upstream.count('/weather-report/de/north/versions.json')).toBe(1);
+      expect(
+        upstream.count('/weather-report/de/north/version__20250426_1508/textproduct_de.xhtml')
+      ).toBe(1);
+    });
+
+    test('should keep the upstreams of servers apart', async () => {
+      const other = new FakeUpstream(() => ({ status: 404 }));
+      await other.start();
+      try {
+        await connect(new HttpDataSource({ baseUrl: other.url, mirrors: [] }));
+        const failed = await callReport({ region: 'west', language: 'fr' });
+        await client.close();
+
+        await connect(new HttpDataSource({ baseUrl: upstream.url, mirrors: [] }));
+        const served = await callReport({ region: 'west', language: 'fr' });
+
+        expect(failed.isError).toBe(true);
+        expect(served.isError).toBeFalsy();
+        expect(other.requests).toHaveLength(1);
+        expect(upstream.count('/weather-report/fr/west/versions.json')).toBe(1);
+      } finally {
+        await other.stop();
+      }
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A request received by the fake upstream
+ */
+export type FakeUpstreamRequest = {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+};
+
+/**
+ * Response of the fake upstream
+ */
+export type FakeUpstreamResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+/**
+ * Local HTTP server standing in for the MeteoSwiss product output
+ */
+export class FakeUpstream {
+  /** Requests received so far */
+  public requests: FakeUpstreamRequest[] = [];
+  private server: http.Server;
+
+  constructor(
+    private handler: (
+      request: FakeUpstreamRequest
+    ) => FakeUpstreamResponse | Promise<FakeUpstreamResponse>
+  ) {
+    this.server = http.createServer((req, res) => {
+      const request = { path: req.url ?? '/', headers: req.headers };
+      this.requests.push(request);
+      Promise.resolve(this.handler(request)).then(
+        ({ status = 200, headers = {}, body = '' }) => {
+          res.writeHead(status, headers);
+          res.end(status === 304 ? undefined : body);
+        },
+        () => {
+          res.writeHead(500);
+          res.end();
+        }
+      );
+    });
+  }
+
+  /**
+   * Base URL of the running server, e.g. `http://127.0.0.1:54321`
+   */
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Number of requests received for a path
+   */
+  count(path: string): number {
+    return this.requests.filter((request) => request.path === path).length;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
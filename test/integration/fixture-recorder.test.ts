@@ -0,0 +1,202 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { HttpDataSource, MirrorDataSource } from '../../src/data/data-source.js';
+import {
+  normalizeTextProduct,
+  recordWeatherReportFixtures,
+} from '../../src/data/fixture-recorder.js';
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { FakeUpstream } from './fake-upstream.js';
+import type { FakeUpstreamResponse } from './fake-upstream.js';
+
+/**
+ * Tests for recording weather report fixtures from the product output
+ */
+describe('Fixture recorder', () => {
+  let upstream: FakeUpstream;
+  let outputDir: string;
+  let source: HttpDataSource;
+  let missing: Set<string>;
+  let served: number;
+  let current: string;
+
+  // A text product as served, with a comment and nonce that change with every response
+  const textProduct = (language: string, version: string): string =>
+    [
+      `<!-- rendered ${new Date(Date.now() + served++).toISOString()} -->`,
+      '<html>\r',
+      '  <body>   \r',
+      `    <h3>Wetterbericht ${language} ${version}</h3>\r`,
+      '    <p>Aktualisiert am Samstag, 26. April 2025, 17:08</p>\r',
+      `    <script nonce="${served}" src="${upstream.url}/static/report.js"></script>\r`,
+      '    <div class="textFCK"><h4>Heute Samstag</h4><p>Sonnig, 20 Grad</p></div>\r',
+      '  </body>\r',
+      '</html>\r',
+      '',
+    ].join('\n');
+
+  const respond = (productPath: string): FakeUpstreamResponse => {
+    if (missing.has(productPath)) {
+      return { status: 404 };
+    }
+    if (productPath.endsWith('/versions.json')) {
+      // Like the product output, it names only the current version
+      return {
+        body: JSON.stringify({
+          currentVersionDirectory: current,
+          generatedAt: new Date().toISOString(),
+        }),
+      };
+    }
+    const match = productPath.match(/\/(version__\d{8}_\d{4})\/textproduct_(\w+)\.xhtml$/);
+    return match ? { body: textProduct(match[2]!, match[1]!) } : { status: 404 };
+  };
+
+  beforeEach(async () => {
+    missing = new Set();
+    served = 0;
+    current = 'version__20250426_1104';
+    upstream = new FakeUpstream(({ path: productPath }) => respond(productPath));
+    await upstream.start();
+    source = new HttpDataSource({ baseUrl: upstream.url, mirrors: [] });
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixture-recorder-'));
+  });
+
+  afterEach(async () => {
+    circuitBreakers.reset();
+    await upstream.stop();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  function record(options: { currentOnly?: boolean } = {}) {
+    return recordWeatherReportFixtures({
+      source,
+      outputDir,
+      regions: ['north'],
+      ...options,
+    });
+  }
+
+  test('should record every language into the fixture layout', async () => {
+    const manifest = await record();
+
+    expect(manifest.failures).toEqual([]);
+    expect(manifest.reports.map((report) => [report.directory, report.languages])).toEqual([
+      ['weather-report/de/north', ['de', 'en']],
+      ['weather-report/fr/north', ['fr']],
+      ['weather-report/it/north', ['it']],
+    ]);
+    expect(
+      await fs.readdir(path.join(outputDir, 'weather-report/de/north/version__20250426_1104'))
+    ).toEqual(['textproduct_de.xhtml', 'textproduct_en.xhtml']);
+    expect(manifest.files).toHaveLength(2 + 1 + 1 + 1 + 1 + 1);
+    expect(manifest.files[0]).toEqual({
+      path: 'weather-report/de/north/version__20250426_1104/textproduct_de.xhtml',
+      bytes: expect.any(Number),
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+      origin: upstream.url,
+    });
+
+    const written = JSON.parse(
+      await fs.readFile(path.join(outputDir, 'weather-report/manifest.json'), 'utf-8')
+    );
+    expect(written).toEqual(manifest);
+  });
+
+  test('should record every version named as current since the start', async () => {
+    await record();
+    current = 'version__20250426_1508';
+
+    const manifest = await record();
+
+    expect(manifest.reports[0]?.versionDirectories).toEqual([
+      'version__20250426_1508',
+      'version__20250426_1104',
+    ]);
+    expect(await fs.readdir(path.join(outputDir, 'weather-report/de/north'))).toEqual([
+      'version__20250426_1104',
+      'version__20250426_1508',
+      'versions.json',
+    ]);
+  });
+
+  test('should normalize volatile parts, so recordings are reproducible', async () => {
+    const first = await record();
+    const firstFile = await fs.readFile(
+      path.join(outputDir, 'weather-report/fr/north/version__20250426_1104/textproduct_fr.xhtml'),
+      'utf-8'
+    );
+    const second = await record();
+
+    expect(firstFile).not.toMatch(/rendered|nonce|\r|127\.0\.0\.1/);
+    expect(firstFile).toContain(
+      '<script src="https://www.meteoswiss.admin.ch/product/output/static/report.js">'
+    );
+    expect(second.files.map((file) => file.sha256)).toEqual(first.files.map((file) => file.sha256));
+    // Written as served, without the generation time and without a version list
+    expect(
+      await fs.readFile(path.join(outputDir, 'weather-report/fr/north/versions.json'), 'utf-8')
+    ).toBe('{"currentVersionDirectory":"version__20250426_1104"}\n');
+  });
+
+  test('should record only the current version if asked to', async () => {
+    await record();
+    current = 'version__20250426_1508';
+    await fs.rm(outputDir, { recursive: true, force: true });
+
+    const manifest = await record({ currentOnly: true });
+
+    expect(manifest.reports[0]?.versionDirectories).toEqual(['version__20250426_1508']);
+    expect(await fs.readdir(path.join(outputDir, 'weather-report/it/north'))).toEqual([
+      'version__20250426_1508',
+      'versions.json',
+    ]);
+  });
+
+  test('should list missing documents as failures and record the rest', async () => {
+    await record();
+    current = 'version__20250426_1508';
+    missing.add('/weather-report/it/north/versions.json');
+    missing.add('/weather-report/fr/north/version__20250426_1104/textproduct_fr.xhtml');
+    await fs.rm(outputDir, { recursive: true, force: true });
+
+    const manifest = await record();
+
+    expect(manifest.failures).toEqual([
+      {
+        path: 'weather-report/fr/north/version__20250426_1104/textproduct_fr.xhtml',
+        error: expect.stringContaining('404'),
+      },
+      { path: 'weather-report/it/north/versions.json', error: expect.stringContaining('404') },
+    ]);
+    expect(manifest.reports.map((report) => report.directory)).toEqual([
+      'weather-report/de/north',
+      'weather-report/fr/north',
+    ]);
+    expect(manifest.reports[1]?.versionDirectories).toEqual(['version__20250426_1508']);
+    await expect(fs.access(path.join(outputDir, 'weather-report/it'))).rejects.toThrow();
+  });
+
+  test('should record fixtures the server can read as a mirror', async () => {
+    await record();
+    current = 'version__20250426_1508';
+    await record();
+
+    const report = await getWeatherReport(
+      'north',
+      'en',
+      { version: 'version__20250426_1104' },
+      new MirrorDataSource(outputDir)
+    );
+
+    expect(report.version).toBe('version__20250426_1104');
+    expect(report.forecast[0]?.day).toBe('Heute Samstag');
+  });
+
+  test('should leave documents without volatile parts as they are', () => {
+    const html = '<html>\n  <body><h3>Report</h3></body>\n</html>\n';
+    expect(normalizeTextProduct(html)).toBe(html);
+  });
+});
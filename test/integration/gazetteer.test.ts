@@ -0,0 +1,136 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { LocationResolutionError, resolveLocation } from '../../src/data/gazetteer.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the offline gazetteer and the location parameter of meteoswissWeatherReport
+ */
+describe('Gazetteer', () => {
+  test('should resolve a locality', () => {
+    expect(resolveLocation('Lugano')).toEqual({
+      name: 'Lugano',
+      canton: 'TI',
+      region: 'south',
+      postalCode: '6900',
+      weatherPillId: '690000',
+      stationId: 'LUG',
+      coordinates: { latitude: 46.0037, longitude: 8.9511 },
+      matchedBy: 'locality',
+    });
+  });
+
+  test('should resolve a postal code', () => {
+    expect(resolveLocation('8004')).toMatchObject({
+      name: 'Zürich',
+      region: 'north',
+      postalCode: '8004',
+      weatherPillId: '800400',
+      stationId: 'SMA',
+      matchedBy: 'postal-code',
+    });
+  });
+
+  test('should resolve cantons by name in any language and by code', () => {
+    expect(resolveLocation('Valais')).toMatchObject({
+      name: 'Wallis',
+      canton: 'VS',
+      region: 'west',
+      stationId: 'SIO',
+      matchedBy: 'canton',
+    });
+    expect(resolveLocation('Wallis')).toMatchObject({ canton: 'VS', region: 'west' });
+    expect(resolveLocation('ti')).toMatchObject({ canton: 'TI', region: 'south' });
+  });
+
+  test('should prefer localities over cantons and ignore case and accents', () => {
+    expect(resolveLocation('bern')).toMatchObject({ name: 'Bern', matchedBy: 'locality' });
+    expect(resolveLocation('GENEVE')).toMatchObject({ name: 'Genève', region: 'west' });
+    expect(resolveLocation('Genf')).toMatchObject({ name: 'Genève', stationId: 'GVE' });
+  });
+
+  test('should use the region of the locality where it differs from the canton', () => {
+    expect(resolveLocation('Poschiavo')).toMatchObject({ canton: 'GR', region: 'south' });
+    expect(resolveLocation('Davos')).toMatchObject({ canton: 'GR', region: 'north' });
+  });
+
+  test('should match the start of a name', () => {
+    expect(resolveLocation('La Chaux')).toMatchObject({ name: 'La Chaux-de-Fonds' });
+    expect(resolveLocation('Chaux-de-Fonds')).toMatchObject({ name: 'La Chaux-de-Fonds' });
+  });
+
+  test('should list the candidates of an ambiguous name', () => {
+    expect.assertions(3);
+    try {
+      resolveLocation('Buchs');
+    } catch (error) {
+      expect(error).toBeInstanceOf(LocationResolutionError);
+      expect((error as LocationResolutionError).candidates.map((c) => c.canton)).toEqual([
+        'AG',
+        'SG',
+        'ZH',
+      ]);
+      expect((error as Error).message).toContain('Buchs (AG, 5033), Buchs (SG, 9470)');
+    }
+  });
+
+  test('should disambiguate with a canton code', () => {
+    expect(resolveLocation('Buchs SG')).toMatchObject({ postalCode: '9470', stationId: 'STG' });
+    expect(resolveLocation('Wil (ZH)')).toMatchObject({ postalCode: '8196' });
+  });
+
+  test('should reject unknown locations and postal codes', () => {
+    expect(() => resolveLocation('Atlantis')).toThrow('Unknown location "Atlantis"');
+    expect(() => resolveLocation('9999')).toThrow('Unknown location "9999"');
+  });
+});
+
+describe('meteoswissWeatherReport location parameter', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should return the report of the region covering the location', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherReport',
+      arguments: { location: 'Lugano', language: 'it' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const report = (result as any).structuredContent;
+    expect(report.region).toBe('south');
+    expect(report.language).toBe('it');
+    expect(report.location).toMatchObject({ name: 'Lugano', stationId: 'LUG' });
+  });
+
+  test('should return the candidates for an ambiguous location', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherReport',
+      arguments: { location: 'Kirchberg' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain(
+      'candidates: Kirchberg (BE, 3422), Kirchberg (SG, 9533)'
+    );
+    expect((result as any)._meta.candidates).toEqual([
+      expect.objectContaining({ name: 'Kirchberg', canton: 'BE', postalCode: '3422' }),
+      expect.objectContaining({ name: 'Kirchberg', canton: 'SG', postalCode: '9533' }),
+    ]);
+  });
+
+  test('should require a region or a location', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherReport',
+      arguments: { language: 'de' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('Either region or location is required');
+  });
+});
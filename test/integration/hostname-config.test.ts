@@ -32,8 +32,7 @@ describe('Hostname Configuration', () => {
     
     // Validate environment and create server
     const config = validateEnv();
-    const mcpServer = createServer();
-    const result = await createHttpServer(mcpServer, {
+    const result = await createHttpServer(() => createServer(), {
       port: 0, // Use random port for testing
       host: config.BIND_ADDRESS,
       config
@@ -0,0 +1,20 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import type { CreateServerOptions } from '../../src/server.js';
+
+/**
+ * Connects a test client to a new server over an in-memory transport
+ *
+ * Closing the client also closes the server side of the transport.
+ *
+ * @param options - Options of the server, e.g. its data source or subscription registry
+ * @returns The connected client
+ */
+export async function connectInMemoryClient(options: CreateServerOptions = {}): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(options).connect(serverTransport);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
@@ -143,7 +143,19 @@ describe('MCP Server Integration Tests', () => {
 
       // List tools
       const tools = await client.listTools();
-      expect(tools.tools).toHaveLength(1);
+      expect(tools.tools.map((tool) => tool.name)).toEqual([
+        'meteoswissWeatherReport',
+        'meteoswissWeatherReportDiff',
+        'meteoswissNationalOverview',
+        'meteoswissWeatherOutlook',
+        'meteoswissLocalForecast',
+        'meteoswissWeatherSymbol',
+        'meteoswissStationMeasurements',
+        'meteoswissListStations',
+        'meteoswissFindNearestStations',
+        'meteoswissWeatherWarnings',
+        'meteoswissPollen',
+      ]);
       expect(tools.tools[0]).toMatchObject({
         name: 'meteoswissWeatherReport',
         description: expect.stringContaining('MeteoSwiss weather report'),
@@ -175,7 +187,7 @@ describe('MCP Server Integration Tests', () => {
       expect(result.content).toHaveLength(1);
       expect((result as any).content[0]!.type).toBe('text');
       
-      const weatherData = JSON.parse((result as any).content[0].text);
+      const weatherData = (result as any).structuredContent;
       expect(weatherData).toMatchObject({
         region: 'south',
         language: 'de',
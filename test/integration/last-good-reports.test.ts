@@ -0,0 +1,198 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { HttpDataSource } from '../../src/data/data-source.js';
+import { TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import {
+  DEFAULT_LAST_GOOD_REPORTS_DIR,
+  lastGoodReports,
+  LastGoodReportStore,
+  withLastGoodReport,
+} from '../../src/data/last-good-reports.js';
+import type { WeatherReport } from '../../src/schemas/weather-report.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { configureRetryPolicy, resolveRetryPolicy } from '../../src/support/retry-policy.js';
+import { upstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for serving the last good weather report when the upstream fails
+ */
+describe('Last good weather reports', () => {
+  let directory: string;
+  let report: WeatherReport;
+
+  const failingUpstream = async (): Promise<WeatherReport> => {
+    throw new Error('Failed to fetch weather report versions for north in de: HTTP error 503');
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'last-good-reports-'));
+    report = await getWeatherReport('north', 'de', { version: 'version__20250426_0503' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should return and persist the fresh report', async () => {
+    const store = new LastGoodReportStore(directory);
+
+    expect(await withLastGoodReport('north', 'de', async () => report, store)).toBe(report);
+
+    const stored = JSON.parse(
+      await fs.readFile(path.join(directory, 'weather-report-north-de.json'), 'utf-8')
+    );
+    expect(stored.report.version).toBe('version__20250426_0503');
+    expect(new Date(stored.fetchedAt).getTime()).not.toBeNaN();
+  });
+
+  test('should return the last good report as stale when the upstream fails', async () => {
+    const store = new LastGoodReportStore(directory);
+    await withLastGoodReport('north', 'de', async () => report, store);
+
+    const stale = await withLastGoodReport('north', 'de', failingUpstream, store);
+
+    expect(stale).toMatchObject({
+      region: 'north',
+      language: 'de',
+      version: 'version__20250426_0503',
+      stale: true,
+      upstreamError: 'Failed to fetch weather report versions for north in de: HTTP error 503',
+    });
+    expect(stale.ageSeconds).toBeGreaterThanOrEqual(0);
+    expect(stale.forecast).toEqual(report.forecast);
+  });
+
+  test('should serve the persisted report after a restart', async () => {
+    await withLastGoodReport('north', 'de', async () => report, new LastGoodReportStore(directory));
+
+    // Pretend the report was fetched an hour ago
+    const filePath = path.join(directory, 'weather-report-north-de.json');
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    stored.fetchedAt = new Date(Date.now() - 3600 * 1000).toISOString();
+    await fs.writeFile(filePath, JSON.stringify(stored));
+
+    const restarted = new LastGoodReportStore(directory);
+    const stale = await withLastGoodReport('north', 'de', failingUpstream, restarted);
+
+    expect(stale.stale).toBe(true);
+    expect(stale.version).toBe('version__20250426_0503');
+    expect(stale.ageSeconds).toBeGreaterThanOrEqual(3600);
+    expect(stale.ageSeconds).toBeLessThan(3660);
+  });
+
+  test('should rethrow the upstream error without a last good report', async () => {
+    const store = new LastGoodReportStore(directory);
+
+    await expect(withLastGoodReport('south', 'it', failingUpstream, store)).rejects.toThrow(
+      'HTTP error 503'
+    );
+  });
+
+  test('should ignore unreadable persisted reports', async () => {
+    await fs.writeFile(path.join(directory, 'weather-report-north-de.json'), '{"report":');
+    const store = new LastGoodReportStore(directory);
+
+    await expect(withLastGoodReport('north', 'de', failingUpstream, store)).rejects.toThrow(
+      'HTTP error 503'
+    );
+  });
+
+  test('should persist an unchanged report again only after the persist interval', async () => {
+    const filePath = path.join(directory, 'weather-report-north-de.json');
+    const readStored = async () => JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    const store = new LastGoodReportStore(directory);
+    await withLastGoodReport('north', 'de', async () => report, store);
+    const persisted = await readStored();
+
+    await withLastGoodReport('north', 'de', async () => report, store);
+    expect(await readStored()).toEqual(persisted);
+
+    const newer = await getWeatherReport('north', 'de', { version: 'version__20250426_1104' });
+    await withLastGoodReport('north', 'de', async () => newer, store);
+    expect((await readStored()).report.version).toBe('version__20250426_1104');
+
+    // Without an interval, every fetch updates the persisted fetch time
+    const eager = new LastGoodReportStore(directory, 0);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await withLastGoodReport('north', 'de', async () => newer, eager);
+    expect(new Date((await readStored()).fetchedAt).getTime()).toBeGreaterThan(
+      new Date(persisted.fetchedAt).getTime()
+    );
+  });
+
+  test('should not persist a recently persisted report again after a restart', async () => {
+    const filePath = path.join(directory, 'weather-report-north-de.json');
+    await withLastGoodReport('north', 'de', async () => report, new LastGoodReportStore(directory));
+    const persisted = await fs.readFile(filePath, 'utf-8');
+
+    await withLastGoodReport('north', 'de', async () => report, new LastGoodReportStore(directory));
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(persisted);
+  });
+
+  test('should keep reports in memory only without a directory', async () => {
+    const store = new LastGoodReportStore('');
+    await withLastGoodReport('north', 'de', async () => report, store);
+
+    expect((await withLastGoodReport('north', 'de', failingUpstream, store)).stale).toBe(true);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  describe('over HTTP', () => {
+    const defaultPolicy = resolveRetryPolicy();
+    let upstream: FakeUpstream;
+    let failing: boolean;
+
+    beforeEach(async () => {
+      failing = false;
+      // Serve the fixtures like the product output until the upstream starts failing
+      upstream = new FakeUpstream(async ({ path: productPath }) => {
+        if (failing) {
+          return { status: 503 };
+        }
+        try {
+          return { body: await fs.readFile(path.join(TEST_FIXTURES_ROOT, productPath), 'utf-8') };
+        } catch {
+          return { status: 404 };
+        }
+      });
+      await upstream.start();
+      lastGoodReports.configure(directory);
+      configureRetryPolicy({ retries: 0 });
+      upstreamCache.clear();
+    });
+
+    afterEach(async () => {
+      configureRetryPolicy(defaultPolicy);
+      lastGoodReports.configure(DEFAULT_LAST_GOOD_REPORTS_DIR);
+      circuitBreakers.reset();
+      upstreamCache.clear();
+      await upstream.stop();
+    });
+
+    test('should return the last good report as stale once the upstream fails', async () => {
+      const source = new HttpDataSource({ baseUrl: upstream.url, mirrors: [] });
+      const fresh = await getWeatherReport('west', 'fr', {}, source);
+      expect(fresh.stale).toBeUndefined();
+
+      failing = true;
+      upstreamCache.clear();
+      const stale = await getWeatherReport('west', 'fr', {}, source);
+
+      expect(stale).toMatchObject({
+        region: 'west',
+        language: 'fr',
+        version: fresh.version,
+        stale: true,
+        upstreamError: expect.stringContaining('503'),
+      });
+      expect(stale.forecast).toEqual(fresh.forecast);
+      expect(stale.cache).toBeUndefined();
+      expect(upstream.count('/weather-report/fr/west/versions.json')).toBe(2);
+      expect(await fs.readdir(directory)).toEqual(['weather-report-west-fr.json']);
+    });
+  });
+});
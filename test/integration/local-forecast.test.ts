@@ -0,0 +1,92 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Integration tests for the meteoswissLocalForecast tool
+ *
+ * These tests connect an MCP client to an in-process server instance
+ * and read the Weather Pill data from the test fixtures.
+ */
+describe('meteoswissLocalForecast Tool Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list the tool', async () => {
+    const tools = await client.listTools();
+    expect(tools.tools.map((tool) => tool.name)).toContain('meteoswissLocalForecast');
+  });
+
+  test('should return the local forecast for a postal code', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissLocalForecast',
+      arguments: { postalCode: '8001' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const forecast = JSON.parse((result as any).content[0].text);
+    expect(forecast).toMatchObject({
+      postalCode: '8001',
+      locationName: 'Zürich',
+      coordinates: { latitude: 47.3769, longitude: 8.5417 },
+      current: { temperatureHigh: 18, temperatureLow: 7, weatherSymbolId: 2 },
+      source: 'meteoswiss',
+    });
+    expect(forecast.current.observedAt).toBe('2025-04-26T15:00:00.000Z');
+    expect(forecast.forecast).toHaveLength(9);
+    expect(forecast.forecast[0]).toEqual({
+      date: '2025-04-26',
+      temperatureHigh: 18,
+      temperatureLow: 7,
+      weatherSymbolId: 2,
+      condition: {
+        symbolId: 2,
+        daytime: true,
+        category: 'partly-cloudy',
+        label: 'Mostly sunny, some clouds',
+      },
+      precipitation: 0,
+    });
+  });
+
+  test('should label weather conditions in the requested language', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissLocalForecast',
+      arguments: { postalCode: '6900', language: 'it' },
+    });
+
+    const forecast = JSON.parse((result as any).content[0].text);
+    expect(forecast.locationName).toBe('Lugano');
+    expect(forecast.current.condition).toMatchObject({ category: 'clear', label: 'Soleggiato' });
+    expect(forecast.forecast[3].condition).toMatchObject({
+      symbolId: 12,
+      category: 'thunderstorm',
+      label: 'Schiarite, possibili temporali',
+    });
+  });
+
+  test('should return an error for an unknown postal code', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissLocalForecast',
+      arguments: { postalCode: '9999' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('postal code "9999"');
+  });
+
+  test('should reject malformed postal codes', async () => {
+    await expect(
+      client.callTool({
+        name: 'meteoswissLocalForecast',
+        arguments: { postalCode: 'Zürich' },
+      })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { FixtureDataSource } from '../../src/data/data-source.js';
+import { combineRegionalReports, getNationalOverview } from '../../src/data/national-overview.js';
+import { TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the meteoswissNationalOverview tool
+ */
+describe('meteoswissNationalOverview', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should combine the current reports of all regions by day', async () => {
+    const result: any = await client.callTool({
+      name: 'meteoswissNationalOverview',
+      arguments: { language: 'en' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const overview = JSON.parse(result.content[0].text);
+    expect(overview.reports.map((report: { region: string }) => report.region)).toEqual([
+      'north',
+      'south',
+      'west',
+    ]);
+    expect(overview.errors).toEqual([]);
+    expect(overview.days.map((day: { date: string }) => day.date)).toEqual([
+      '2025-04-28',
+      '2025-04-29',
+    ]);
+    expect(Object.keys(overview.days[0].regions)).toEqual(['north', 'south', 'west']);
+    expect(overview.days[0].regions.south.description).toEqual(expect.any(String));
+  });
+});
+
+describe('getNationalOverview', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'national-overview-'));
+    await fs.cp(
+      path.join(TEST_FIXTURES_ROOT, 'weather-report'),
+      path.join(fixturesDir, 'weather-report'),
+      { recursive: true }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  async function removeVersions(region: string): Promise<void> {
+    await fs.rm(path.join(fixturesDir, 'weather-report', 'fr', region, 'versions.json'));
+  }
+
+  test('should return the other regions when one region fails', async () => {
+    await removeVersions('south');
+
+    const overview = await getNationalOverview('fr', new FixtureDataSource(fixturesDir));
+
+    expect(overview.reports.map((report) => report.region)).toEqual(['north', 'west']);
+    expect(overview.errors).toEqual([
+      {
+        region: 'south',
+        message: expect.stringContaining('weather-report/fr/south/versions.json'),
+      },
+    ]);
+    expect(overview.days.length).toBeGreaterThan(0);
+    for (const day of overview.days) {
+      expect(Object.keys(day.regions)).not.toContain('south');
+    }
+  });
+
+  test('should fail when all regions fail', async () => {
+    for (const region of ['north', 'south', 'west']) {
+      await removeVersions(region);
+    }
+
+    await expect(getNationalOverview('fr', new FixtureDataSource(fixturesDir))).rejects.toThrow(
+      'Failed to fetch weather reports for all regions'
+    );
+  });
+});
+
+describe('combineRegionalReports', () => {
+  test('should report failed regions next to the others', async () => {
+    const north = await getWeatherReport('north', 'de', { version: 'version__20250426_0503' });
+    const west = await getWeatherReport('west', 'de', { version: 'version__20250426_0503' });
+
+    const overview = combineRegionalReports('de', [
+      { region: 'north', report: north },
+      { region: 'south', error: 'Failed to fetch weather report for south in de: HTTP error 503' },
+      { region: 'west', report: west },
+    ]);
+
+    expect(overview.errors).toEqual([
+      {
+        region: 'south',
+        message: 'Failed to fetch weather report for south in de: HTTP error 503',
+      },
+    ]);
+    expect(overview.reports.map((report) => report.region)).toEqual(['north', 'west']);
+    expect(overview.days).toHaveLength(3);
+    expect(overview.days[0]).toMatchObject({ date: '2025-04-26', day: 'Heute Samstag' });
+    expect(Object.keys(overview.days[0]?.regions ?? {})).toEqual(['north', 'west']);
+  });
+
+  test('should mark regions served from their last good report as stale', async () => {
+    const north = await getWeatherReport('north', 'de', { version: 'version__20250426_0503' });
+    const west = await getWeatherReport('west', 'de', { version: 'version__20250426_0503' });
+
+    const overview = combineRegionalReports('de', [
+      { region: 'north', report: north },
+      {
+        region: 'west',
+        report: { ...west, stale: true, ageSeconds: 120, upstreamError: 'HTTP error 503' },
+      },
+    ]);
+
+    expect(overview.reports[0]).not.toHaveProperty('stale');
+    expect(overview.reports[1]).toMatchObject({
+      region: 'west',
+      stale: true,
+      ageSeconds: 120,
+      upstreamError: 'HTTP error 503',
+    });
+    expect(overview.errors).toEqual([]);
+  });
+
+  test('should align reports issued on different days by date', async () => {
+    const north = await getWeatherReport('north', 'de', { version: 'version__20250425_0458' });
+    const south = await getWeatherReport('south', 'de', { version: 'version__20250426_0503' });
+
+    const overview = combineRegionalReports('de', [
+      { region: 'north', report: north },
+      { region: 'south', report: south },
+    ]);
+
+    expect(
+      overview.days.map((day) => [day.date, day.day, Object.keys(day.regions).join(',')])
+    ).toEqual([
+      ['2025-04-25', 'Heute Freitag', 'north'],
+      ['2025-04-26', 'Morgen Samstag', 'north,south'],
+      ['2025-04-27', 'Sonntag', 'north,south'],
+      ['2025-04-28', 'Montag', 'south'],
+    ]);
+    expect(overview.days[1]?.regions.south?.day).toBe('Heute Samstag');
+  });
+});
@@ -0,0 +1,113 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { classifyPollenIntensity } from '../../src/data/pollen-data.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the pollen intensity classes and the meteoswissPollen tool
+ *
+ * The pollen ChartData fixtures cover the stations PZH, PBS and PLU.
+ */
+describe('Pollen intensity classes', () => {
+  test('should apply the thresholds of the taxon', () => {
+    expect(classifyPollenIntensity('birch', 0)).toBe('none');
+    expect(classifyPollenIntensity('birch', 9.9)).toBe('weak');
+    expect(classifyPollenIntensity('birch', 10)).toBe('moderate');
+    expect(classifyPollenIntensity('birch', 299)).toBe('strong');
+    expect(classifyPollenIntensity('birch', 300)).toBe('very-strong');
+    expect(classifyPollenIntensity('grasses', 50)).toBe('strong');
+    expect(classifyPollenIntensity('ragweed', 6)).toBe('moderate');
+  });
+});
+
+describe('meteoswissPollen Tool Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should return the pollen concentrations with intensity classes', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissPollen',
+      arguments: { stationCode: 'pzh' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const pollen = JSON.parse((result as any).content[0].text);
+    expect(pollen).toMatchObject({
+      stationCode: 'PZH',
+      stationName: 'Zürich',
+      canton: 'ZH',
+      unit: 'No/m³',
+      unavailableTaxa: ['alder', 'ragweed', 'mugwort'],
+      source: 'meteoswiss',
+    });
+    expect(pollen.taxa.find((taxon: { taxon: string }) => taxon.taxon === 'birch')).toEqual({
+      taxon: 'birch',
+      label: 'Birch',
+      latest: { timestamp: '2025-04-26T15:00:00.000Z', value: 47 },
+      dailyMean: 110.3,
+      intensity: 'strong',
+      intensityLabel: 'Strong',
+    });
+    expect(
+      pollen.taxa.map((taxon: { taxon: string; intensity: string }) => [
+        taxon.taxon,
+        taxon.intensity,
+      ])
+    ).toEqual([
+      ['hazel', 'none'],
+      ['ash', 'moderate'],
+      ['birch', 'strong'],
+      ['beech', 'moderate'],
+      ['oak', 'weak'],
+      ['grasses', 'weak'],
+    ]);
+  });
+
+  test('should label taxa and classes in the requested language', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissPollen',
+      arguments: { stationCode: 'PBS', taxa: ['birch'], language: 'fr' },
+    });
+
+    const pollen = JSON.parse((result as any).content[0].text);
+    expect(pollen.taxa).toEqual([
+      {
+        taxon: 'birch',
+        label: 'Bouleau',
+        // The last hourly value is missing
+        latest: { timestamp: '2025-04-26T14:00:00.000Z', value: expect.any(Number) },
+        dailyMean: 363.7,
+        intensity: 'very-strong',
+        intensityLabel: 'Très fort',
+      },
+    ]);
+  });
+
+  test('should return an error for an unknown pollen station', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissPollen',
+      arguments: { stationCode: 'SMA' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('Unknown pollen station SMA');
+  });
+
+  test('should return an error if a station has no pollen data', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissPollen',
+      arguments: { stationCode: 'PGE', taxa: ['birch'] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain(
+      'No pollen measurements found for station PGE'
+    );
+  });
+});
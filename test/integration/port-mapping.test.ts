@@ -29,8 +29,7 @@ describe('Port Mapping Configuration', () => {
   const setupServer = async (internalPort: number = 0) => {
     // Validate environment and create server
     const config = validateEnv();
-    const mcpServer = createServer();
-    const result = await createHttpServer(mcpServer, {
+    const result = await createHttpServer(() => createServer(), {
       port: internalPort, // Use specified port or 0 for random
       host: config.BIND_ADDRESS,
       config
@@ -0,0 +1,101 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the prompts embedding the current weather reports
+ */
+describe('Weather prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list the prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'daily-briefing',
+      'outdoor-activity',
+      'compare-north-south',
+    ]);
+    expect(prompts[0]?.arguments).toEqual([
+      expect.objectContaining({ name: 'region', required: true }),
+      expect.objectContaining({ name: 'language', required: true }),
+    ]);
+  });
+
+  test('should embed the current report in the daily briefing', async () => {
+    const result = await client.getPrompt({
+      name: 'daily-briefing',
+      arguments: { region: 'north', language: 'de' },
+    });
+
+    expect(result.messages).toHaveLength(2);
+    const [request, embedded] = result.messages as any[];
+    expect(request.content.type).toBe('text');
+    expect(request.content.text).toContain('north Switzerland');
+
+    expect(embedded.content.type).toBe('resource');
+    expect(embedded.content.resource.uri).toBe('meteoswiss://weather-report/north/de');
+    expect(embedded.content.resource.mimeType).toBe('application/json');
+    const report = JSON.parse(embedded.content.resource.text);
+    expect(report).toMatchObject({ region: 'north', language: 'de' });
+    expect(report.version).toBe('version__20250426_1508');
+  });
+
+  test('should resolve the location of an outdoor activity to its region', async () => {
+    const result = await client.getPrompt({
+      name: 'outdoor-activity',
+      arguments: { location: 'Lugano', day: 'Saturday', activity: 'a hike' },
+    });
+
+    const [request, embedded] = result.messages as any[];
+    expect(request.content.text).toContain('a hike on Saturday in Lugano');
+    expect(request.content.text).toContain('meteoswissWeatherWarnings');
+    expect(embedded.content.resource.uri).toBe('meteoswiss://weather-report/south/en');
+  });
+
+  test('should reject unknown locations', async () => {
+    await expect(
+      client.getPrompt({
+        name: 'outdoor-activity',
+        arguments: { location: 'Atlantis', day: 'Saturday' },
+      })
+    ).rejects.toThrow('Failed to build outdoor-activity prompt for location "Atlantis"');
+  });
+
+  test('should embed the reports of north and south for a comparison', async () => {
+    const result = await client.getPrompt({
+      name: 'compare-north-south',
+      arguments: { trip: 'a weekend of hiking', language: 'it' },
+    });
+
+    const uris = result.messages
+      .map((message) => message.content)
+      .filter((content) => content.type === 'resource')
+      .map((content) => (content as any).resource.uri);
+    expect(uris).toEqual([
+      'meteoswiss://weather-report/north/it',
+      'meteoswiss://weather-report/south/it',
+    ]);
+  });
+
+  test('should complete region and language of the daily briefing', async () => {
+    const regions = await client.complete({
+      ref: { type: 'ref/prompt', name: 'daily-briefing' },
+      argument: { name: 'region', value: 'n' },
+    });
+    expect(regions.completion.values).toEqual(['north']);
+
+    const languages = await client.complete({
+      ref: { type: 'ref/prompt', name: 'daily-briefing' },
+      argument: { name: 'language', value: 'f' },
+    });
+    expect(languages.completion.values).toEqual(['fr']);
+  });
+});
@@ -0,0 +1,123 @@
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { SingleFlight } from '../../src/support/single-flight.js';
+import { UpstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for sharing concurrent identical upstream requests
+ */
+describe('Request coalescing', () => {
+  let upstream: FakeUpstream;
+  let healthy: boolean;
+
+  const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    healthy = true;
+    // Respond slowly, so parallel requests overlap
+    upstream = new FakeUpstream(async () => {
+      await wait(50);
+      return healthy ? { headers: { ETag: '"v1"' }, body: '<h3>Report</h3>' } : { status: 503 };
+    });
+    await upstream.start();
+  });
+
+  afterEach(async () => {
+    circuitBreakers.reset();
+    await upstream.stop();
+  });
+
+  test('should download a document once for parallel requests', async () => {
+    const cache = new UpstreamCache();
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => cache.fetchText(url)));
+
+    expect(results.map((result) => result.text)).toEqual(Array(10).fill('<h3>Report</h3>'));
+    expect(upstream.count('/weather-report/de/north/versions.json')).toBe(1);
+  });
+
+  test('should share parallel requests with the cache disabled', async () => {
+    const cache = new UpstreamCache({ maxEntries: 0 });
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    await Promise.all(Array.from({ length: 5 }, () => cache.fetchText(url)));
+    expect(upstream.requests).toHaveLength(1);
+
+    // Requests after the shared one has settled start a new one
+    await cache.fetchText(url);
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  test('should not share requests for different URLs', async () => {
+    const cache = new UpstreamCache();
+
+    await Promise.all([
+      cache.fetchText(`${upstream.url}/weather-report/de/north/versions.json`),
+      cache.fetchText(`${upstream.url}/weather-report/de/south/versions.json`),
+    ]);
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  test('should share a failure with the parallel callers only', async () => {
+    const cache = new UpstreamCache();
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    healthy = false;
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => cache.fetchText(url, { retry: { retries: 0 } }))
+    );
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected', 'rejected']);
+    expect(upstream.requests).toHaveLength(1);
+
+    healthy = true;
+    expect((await cache.fetchText(url, { retry: { retries: 0 } })).text).toBe('<h3>Report</h3>');
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  test('should compute a parsed value once for parallel requests', async () => {
+    const cache = new UpstreamCache();
+    let computed = 0;
+    const compute = async (): Promise<string> => {
+      computed++;
+      await wait(20);
+      return 'parsed';
+    };
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => cache.remember('weather-report/north/de/v', compute))
+    );
+
+    expect(results.map((result) => result.value)).toEqual(Array(5).fill('parsed'));
+    expect(computed).toBe(1);
+  });
+
+  test('should share parallel weather report requests for the same region and language', async () => {
+    const [first, second, other] = await Promise.all([
+      getWeatherReport('north', 'de'),
+      getWeatherReport('north', 'de'),
+      getWeatherReport('north', 'fr'),
+    ]);
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+    expect(await getWeatherReport('north', 'de')).not.toBe(first);
+  });
+
+  test('should forget settled requests', async () => {
+    const flights = new SingleFlight();
+    let started = 0;
+    const request = async (): Promise<number> => {
+      started++;
+      await wait(10);
+      return started;
+    };
+
+    const pending = [flights.run('a', request), flights.run('a', request)];
+    expect(flights.size).toBe(1);
+    expect(await Promise.all(pending)).toEqual([1, 1]);
+    expect(flights.size).toBe(0);
+    expect(await flights.run('a', request)).toBe(2);
+  });
+});
@@ -0,0 +1,200 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { FixtureDataSource } from '../../src/data/data-source.js';
+import { WeatherReportPoller } from '../../src/data/weather-report-poller.js';
+import { ResourceSubscriptions } from '../../src/support/resource-subscriptions.js';
+import { weatherReportResourceUri } from '../../src/support/resource-uris.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * A session connected to its own server, recording the resource updates it receives
+ */
+type Session = {
+  client: Client;
+  updatedUris: string[];
+  /** Resolves with the URI of the next resource update */
+  nextUpdate: () => Promise<string>;
+};
+
+/**
+ * Tests for resource subscriptions and the weather report poller
+ *
+ * The poller reads the versions.json files of a temporary fixture directory through the
+ * data layer; their `currentVersionDirectory` is changed between polls.
+ */
+describe('Weather report subscriptions', () => {
+  const regions = ['north', 'south', 'west'];
+  // English reports share the German directory
+  const languageDirs = ['de', 'fr', 'it'];
+
+  let fixturesDir: string;
+  let subscriptions: ResourceSubscriptions;
+  let poller: WeatherReportPoller;
+  let sessions: Session[];
+  let session: Session;
+
+  async function publishVersion(region: string, languageDir: string, version: string) {
+    const dir = path.join(fixturesDir, 'weather-report', languageDir, region);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'versions.json'),
+      JSON.stringify({ currentVersionDirectory: version })
+    );
+  }
+
+  async function connect(): Promise<Session> {
+    const client = await connectInMemoryClient({ subscriptions });
+    const updatedUris: string[] = [];
+    const waiting: ((uri: string) => void)[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updatedUris.push(notification.params.uri);
+      waiting.shift()?.(notification.params.uri);
+    });
+    const connected = {
+      client,
+      updatedUris,
+      nextUpdate: () => new Promise<string>((resolve) => waiting.push(resolve)),
+    };
+    sessions.push(connected);
+    return connected;
+  }
+
+  // Notifications sent before a ping arrive before its response
+  async function settle(...settled: Session[]): Promise<void> {
+    await Promise.all(settled.map(({ client }) => client.ping()));
+  }
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'meteoswiss-versions-'));
+    for (const region of regions) {
+      for (const languageDir of languageDirs) {
+        await publishVersion(region, languageDir, 'version__20250426_0503');
+      }
+    }
+
+    subscriptions = new ResourceSubscriptions();
+    poller = new WeatherReportPoller({
+      intervalMs: 60000,
+      onUpdate: async ({ region, language }) => {
+        await subscriptions.notify(weatherReportResourceUri(region, language));
+      },
+      dataSource: new FixtureDataSource(fixturesDir),
+    });
+
+    sessions = [];
+    session = await connect();
+  });
+
+  afterEach(async () => {
+    poller.stop();
+    await Promise.all(sessions.map(({ client }) => client.close()));
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  test('should announce subscription support', () => {
+    expect(session.client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+  });
+
+  test('should notify subscribed sessions of a new version', async () => {
+    await session.client.subscribeResource({ uri: 'meteoswiss://weather-report/north/fr' });
+    expect(await poller.poll()).toEqual([]);
+
+    await publishVersion('north', 'fr', 'version__20250426_1104');
+    await publishVersion('south', 'it', 'version__20250426_1104');
+    const update = session.nextUpdate();
+    const updates = await poller.poll();
+
+    expect(await update).toBe('meteoswiss://weather-report/north/fr');
+    expect(updates).toEqual([
+      { region: 'north', language: 'fr', versionDirectory: 'version__20250426_1104' },
+      { region: 'south', language: 'it', versionDirectory: 'version__20250426_1104' },
+    ]);
+    await settle(session);
+    expect(session.updatedUris).toEqual(['meteoswiss://weather-report/north/fr']);
+  });
+
+  test('should notify English subscribers of a new version in the German directory', async () => {
+    await session.client.subscribeResource({ uri: 'meteoswiss://weather-report/west/en' });
+    await poller.poll();
+
+    await publishVersion('west', 'de', 'version__20250426_1104');
+    const update = session.nextUpdate();
+    const updates = await poller.poll();
+
+    expect(await update).toBe('meteoswiss://weather-report/west/en');
+    expect(updates.map(({ language }) => language)).toEqual(['de', 'en']);
+  });
+
+  test('should not notify again without a new version', async () => {
+    await session.client.subscribeResource({ uri: 'meteoswiss://weather-report/west/it' });
+    await poller.poll();
+    await publishVersion('west', 'it', 'version__20250426_1104');
+    await poller.poll();
+    await poller.poll();
+    await settle(session);
+
+    expect(session.updatedUris).toEqual(['meteoswiss://weather-report/west/it']);
+  });
+
+  test('should keep the last version while versions.json cannot be read', async () => {
+    await session.client.subscribeResource({ uri: 'meteoswiss://weather-report/north/de' });
+    await poller.poll();
+
+    await fs.rm(path.join(fixturesDir, 'weather-report', 'de', 'north', 'versions.json'));
+    expect(await poller.poll()).toEqual([]);
+    await publishVersion('north', 'de', 'version__20250426_0503');
+    expect(await poller.poll()).toEqual([]);
+    await settle(session);
+
+    expect(session.updatedUris).toEqual([]);
+  });
+
+  test('should stop notifying after unsubscribing', async () => {
+    const uri = 'meteoswiss://weather-report/south/de';
+    await session.client.subscribeResource({ uri });
+    await session.client.unsubscribeResource({ uri });
+    await poller.poll();
+    await publishVersion('south', 'de', 'version__20250426_1104');
+    await poller.poll();
+    await settle(session);
+
+    expect(session.updatedUris).toEqual([]);
+    expect(subscriptions.isSubscribed(uri)).toBe(false);
+  });
+
+  test('should notify every subscribed session on its own connection', async () => {
+    const other = await connect();
+    const uri = 'meteoswiss://weather-report/south/fr';
+    await session.client.subscribeResource({ uri });
+    await other.client.subscribeResource({ uri });
+    await poller.poll();
+
+    await publishVersion('south', 'fr', 'version__20250426_1104');
+    const updates = [session.nextUpdate(), other.nextUpdate()];
+    await poller.poll();
+
+    expect(await Promise.all(updates)).toEqual([uri, uri]);
+  });
+
+  test('should remove only the subscriptions of closed sessions', async () => {
+    const other = await connect();
+    const uri = 'meteoswiss://weather-report/west/fr';
+    await session.client.subscribeResource({ uri });
+    await other.client.subscribeResource({ uri });
+    await poller.poll();
+
+    await session.client.close();
+    expect(subscriptions.isSubscribed(uri)).toBe(true);
+
+    await publishVersion('west', 'fr', 'version__20250426_1104');
+    const update = other.nextUpdate();
+    await poller.poll();
+    expect(await update).toBe(uri);
+
+    await other.client.close();
+    expect(subscriptions.isSubscribed(uri)).toBe(false);
+  });
+});
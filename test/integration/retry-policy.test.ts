@@ -0,0 +1,127 @@
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { fetchWithRetry, HttpRequestError } from '../../src/support/http-communication.js';
+import {
+  configureRetryPolicy,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  retryDelay,
+} from '../../src/support/retry-policy.js';
+import type { FakeUpstreamResponse } from './fake-upstream.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for the retry policy of upstream requests against a local fake upstream
+ */
+describe('Retry policy', () => {
+  let upstream: FakeUpstream;
+  let responses: FakeUpstreamResponse[];
+  let url: string;
+  const defaultPolicy = resolveRetryPolicy();
+
+  beforeEach(async () => {
+    // Responds with the queued responses, then succeeds
+    responses = [];
+    upstream = new FakeUpstream(() => responses.shift() ?? { body: 'ok' });
+    await upstream.start();
+    url = `${upstream.url}/weather-report/de/north/versions.json`;
+  });
+
+  afterEach(async () => {
+    configureRetryPolicy(defaultPolicy);
+    circuitBreakers.reset();
+    await upstream.stop();
+  });
+
+  test('should retry server errors', async () => {
+    responses = [{ status: 503 }, { status: 500 }];
+
+    expect(await fetchWithRetry(url, { retry: { retries: 3, baseDelayMs: 10 } })).toBe('ok');
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  test('should not retry client errors', async () => {
+    responses = [{ status: 404 }];
+
+    await expect(fetchWithRetry(url, { retry: { retries: 3, baseDelayMs: 10 } })).rejects.toThrow(
+      'HTTP error 404'
+    );
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  test('should wait for the Retry-After delay of a 429 response', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '1' } }];
+
+    const startTime = Date.now();
+    expect(await fetchWithRetry(url, { retry: { retries: 1, baseDelayMs: 0 } })).toBe('ok');
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(1000);
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  test('should not retry when the Retry-After delay ends after the deadline', async () => {
+    responses = [{ status: 503, headers: { 'Retry-After': '60' } }];
+
+    const startTime = Date.now();
+    const error = await fetchWithRetry(url, { retry: { retries: 3, deadlineMs: 2000 } }).catch(
+      (error: unknown) => error
+    );
+    expect(error).toBeInstanceOf(HttpRequestError);
+    expect((error as HttpRequestError).retryAfterMs).toBe(60000);
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  test('should abort an attempt at the deadline', async () => {
+    await upstream.stop();
+    upstream = new FakeUpstream(
+      () => new Promise((resolve) => setTimeout(() => resolve({ body: 'late' }), 1000))
+    );
+    await upstream.start();
+
+    const startTime = Date.now();
+    await expect(
+      fetchWithRetry(`${upstream.url}/slow`, { retry: { retries: 3, deadlineMs: 200 } })
+    ).rejects.toThrow(HttpRequestError);
+    expect(Date.now() - startTime).toBeLessThan(900);
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  test('should use the configured policy unless the call site overrides it', async () => {
+    configureRetryPolicy({ retries: 0 });
+    responses = [{ status: 503 }, { status: 503 }];
+
+    await expect(fetchWithRetry(url)).rejects.toThrow('HTTP error 503');
+    expect(upstream.requests).toHaveLength(1);
+
+    expect(await fetchWithRetry(url, { retry: { retries: 1, baseDelayMs: 10 } })).toBe('ok');
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  test('should back off exponentially with full jitter', () => {
+    const policy = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000, deadlineMs: 30000 };
+    const delays = (retry: number): number[] =>
+      Array.from({ length: 50 }, () => retryDelay(policy, retry));
+
+    for (const [retry, cap] of [
+      [0, 100],
+      [2, 400],
+      [4, 1000],
+    ] as const) {
+      for (const delay of delays(retry)) {
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(cap);
+      }
+    }
+    expect(retryDelay(policy, 0, 5000)).toBe(5000);
+  });
+
+  test('should read Retry-After in seconds or as a date for 429 and 503 only', () => {
+    const now = Date.parse('2025-04-26T15:08:00Z');
+
+    expect(parseRetryAfter(429, '120', now)).toBe(120000);
+    expect(parseRetryAfter(503, 'Sat, 26 Apr 2025 15:08:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter(503, 'Sat, 26 Apr 2025 15:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(503, 'soon', now)).toBeUndefined();
+    expect(parseRetryAfter(500, '120', now)).toBeUndefined();
+    expect(parseRetryAfter(429, null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Integration tests for the meteoswissStationMeasurements tool
+ *
+ * These tests connect an MCP client to an in-process server instance
+ * and read the ChartData series from the test fixtures.
+ */
+describe('meteoswissStationMeasurements Tool Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const callMeasurements = async (args: Record<string, unknown>): Promise<any> => {
+    const result = await client.callTool({
+      name: 'meteoswissStationMeasurements',
+      arguments: args,
+    });
+    expect(result.isError).toBeFalsy();
+    return JSON.parse((result as any).content[0].text);
+  };
+
+  test('should return the latest values and hourly series with units', async () => {
+    const measurements = await callMeasurements({
+      stationCode: 'SMA',
+      parameters: ['temperature', 'wind'],
+    });
+
+    expect(measurements.stationCode).toBe('SMA');
+    expect(measurements.unavailableParameters).toEqual([]);
+
+    const [temperature, wind] = measurements.measurements;
+    expect(temperature.parameter).toBe('temperature');
+    expect(temperature.unit).toBe('°C');
+    expect(temperature.series[0].latest).toEqual({
+      timestamp: '2025-04-26T15:00:00.000Z',
+      value: 15.8,
+    });
+    // Defaults to the last 24 hours
+    expect(temperature.series[0].hourly).toHaveLength(24);
+    expect(temperature.series[0].hourly[23]).toEqual(temperature.series[0].latest);
+
+    expect(wind.unit).toBe('km/h');
+    expect(wind.series.map((series: { name: string }) => series.name)).toEqual([
+      'Wind speed; hourly mean',
+      'Gust peak (one second); maximum',
+    ]);
+    expect(wind.series[1].latest.value).toBe(14.2);
+  });
+
+  test('should skip missing values when determining the latest value', async () => {
+    const measurements = await callMeasurements({
+      stationCode: 'sma',
+      parameters: ['humidity'],
+      hours: 2,
+    });
+
+    const [humidity] = measurements.measurements;
+    expect(humidity.series[0].hourly).toEqual([
+      { timestamp: '2025-04-26T14:00:00.000Z', value: 55 },
+      { timestamp: '2025-04-26T15:00:00.000Z', value: null },
+    ]);
+    expect(humidity.series[0].latest).toEqual({
+      timestamp: '2025-04-26T14:00:00.000Z',
+      value: 55,
+    });
+  });
+
+  test('should list parameters that are not measured at the station', async () => {
+    const measurements = await callMeasurements({
+      stationCode: 'LUG',
+      parameters: ['temperature', 'snow', 'sunshine'],
+    });
+
+    expect(
+      measurements.measurements.map((measurement: { parameter: string }) => measurement.parameter)
+    ).toEqual(['temperature', 'sunshine']);
+    expect(measurements.unavailableParameters).toEqual(['snow']);
+  });
+
+  test('should return an error for unknown stations', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissStationMeasurements',
+      arguments: { stationCode: 'XYZ' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('No measurements found for station XYZ');
+  });
+});
@@ -0,0 +1,109 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { findNearestStations, listStations } from '../../src/data/station-data.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the station registry and the station tools
+ *
+ * The registry is loaded from the StationMeta test fixture.
+ */
+describe('Station registry', () => {
+  test('should load all stations sorted by id', async () => {
+    const stations = await listStations();
+    expect(stations).toHaveLength(22);
+    expect(stations.map((station) => station.id)).toEqual(
+      [...stations.map((station) => station.id)].sort()
+    );
+    expect(stations.find((station) => station.id === 'GVE')).toEqual({
+      id: 'GVE',
+      name: 'Genève / Cointrin',
+      canton: 'GE',
+      coordinates: { latitude: 46.2475, longitude: 6.1278 },
+      altitude: 411,
+      parameters: ['temperature', 'precipitation', 'wind', 'humidity', 'pressure'],
+    });
+  });
+
+  test('should filter stations by parameter and canton', async () => {
+    const stations = await listStations({ parameter: 'snow', canton: 'gr' });
+    expect(stations.map((station) => station.id)).toEqual(['DAV', 'SAM']);
+  });
+
+  test('should find the nearest stations with distances', async () => {
+    const stations = await findNearestStations(47.3769, 8.5417, { limit: 2 });
+    expect(stations.map((station) => station.id)).toEqual(['SMA', 'KLO']);
+    expect(stations[0]?.distanceKm).toBeCloseTo(1.9, 0);
+    expect(stations[0]).not.toHaveProperty('altitudeDifference');
+  });
+
+  test('should only consider stations measuring the parameter', async () => {
+    const stations = await findNearestStations(46.2044, 6.1432, { parameter: 'sunshine' });
+    expect(stations.map((station) => station.id)).not.toContain('GVE');
+  });
+
+  test('should limit the altitude difference', async () => {
+    const stations = await findNearestStations(46.8, 9.83, {
+      altitude: 1560,
+      maxAltitudeDiff: 300,
+      limit: 2,
+    });
+    expect(stations.map((station) => station.id)).toEqual(['DAV', 'SAM']);
+    expect(stations[0]?.altitudeDifference).toBe(34);
+  });
+
+  test('should require an altitude for maxAltitudeDiff', async () => {
+    await expect(findNearestStations(46.8, 9.83, { maxAltitudeDiff: 300 })).rejects.toThrow(
+      'maxAltitudeDiff requires the altitude of the location'
+    );
+  });
+});
+
+describe('Station Tools Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list stations', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissListStations',
+      arguments: { canton: 'TI' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const stations = JSON.parse((result as any).content[0].text);
+    expect(stations.map((station: { id: string }) => station.id)).toEqual([
+      'AIR',
+      'LUG',
+      'MAG',
+      'OTL',
+    ]);
+  });
+
+  test('should find the nearest stations', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissFindNearestStations',
+      arguments: { latitude: 46.0037, longitude: 8.9511, parameter: 'precipitation', limit: 1 },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const stations = JSON.parse((result as any).content[0].text);
+    expect(stations).toHaveLength(1);
+    expect(stations[0]).toMatchObject({ id: 'LUG', name: 'Lugano', altitude: 273 });
+  });
+
+  test('should return an error for maxAltitudeDiff without altitude', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissFindNearestStations',
+      arguments: { latitude: 46.8, longitude: 9.83, maxAltitudeDiff: 300 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('requires the altitude');
+  });
+});
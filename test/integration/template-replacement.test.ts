@@ -28,8 +28,7 @@ describe('Template Replacement in Homepage', () => {
   
   const setupServer = async () => {
     const config = validateEnv();
-    const mcpServer = createServer();
-    const result = await createHttpServer(mcpServer, {
+    const result = await createHttpServer(() => createServer(), {
       port: 0, // Use random port for testing
       host: config.BIND_ADDRESS,
       config
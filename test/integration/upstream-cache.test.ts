@@ -0,0 +1,119 @@
+import { UpstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for the upstream cache against a local fake upstream
+ */
+describe('UpstreamCache', () => {
+  let upstream: FakeUpstream;
+  let versions: { etag: string; body: string };
+
+  beforeEach(async () => {
+    versions = { etag: '"v1"', body: '{"currentVersionDirectory":"version__20250426_0503"}' };
+    upstream = new FakeUpstream((request) => {
+      if (request.path.endsWith('versions.json')) {
+        if (request.headers['if-none-match'] === versions.etag) {
+          return { status: 304, headers: { ETag: versions.etag } };
+        }
+        return { headers: { ETag: versions.etag }, body: versions.body };
+      }
+      if (request.path.endsWith('.xhtml')) {
+        return {
+          headers: { 'Last-Modified': 'Sat, 26 Apr 2025 05:03:00 GMT' },
+          body: '<h3>Report</h3>',
+        };
+      }
+      return { status: 404 };
+    });
+    await upstream.start();
+  });
+
+  afterEach(async () => {
+    await upstream.stop();
+  });
+
+  test('should serve versions.json from the cache within the TTL', async () => {
+    const cache = new UpstreamCache({ versionsTtlMs: 60000 });
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'miss' });
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'hit' });
+    expect(upstream.count('/weather-report/de/north/versions.json')).toBe(1);
+  });
+
+  test('should revalidate versions.json with its ETag after the TTL', async () => {
+    const cache = new UpstreamCache({ versionsTtlMs: 0 });
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    await cache.fetchText(url);
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'revalidated' });
+    expect(upstream.requests[1]?.headers['if-none-match']).toBe('"v1"');
+
+    versions = { etag: '"v2"', body: '{"currentVersionDirectory":"version__20250426_1104"}' };
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'miss' });
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'revalidated' });
+  });
+
+  test('should send If-Modified-Since for documents with a Last-Modified date', async () => {
+    const cache = new UpstreamCache({ versionsTtlMs: 0 });
+    const url = `${upstream.url}/weather-report/de/north/other.xhtml`;
+
+    await cache.fetchText(url);
+    await cache.fetchText(url);
+    expect(upstream.requests[1]?.headers['if-modified-since']).toBe(
+      'Sat, 26 Apr 2025 05:03:00 GMT'
+    );
+  });
+
+  test('should never refetch documents of a version directory', async () => {
+    const cache = new UpstreamCache({ versionsTtlMs: 0 });
+    const url = `${upstream.url}/weather-report/de/north/version__20250426_0503/textproduct_de.xhtml`;
+
+    await cache.fetchText(url, { immutable: true });
+    expect(await cache.fetchText(url, { immutable: true })).toEqual({
+      text: '<h3>Report</h3>',
+      cache: 'hit',
+    });
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  test('should compute a parsed value once per key', async () => {
+    const cache = new UpstreamCache();
+    let computed = 0;
+    const compute = async (): Promise<{ title: string }> => {
+      computed++;
+      return { title: 'Report' };
+    };
+
+    expect(await cache.remember('weather-report/north/de/version__20250426_0503', compute)).toEqual(
+      { value: { title: 'Report' }, cache: 'miss' }
+    );
+    expect(await cache.remember('weather-report/north/de/version__20250426_0503', compute)).toEqual(
+      { value: { title: 'Report' }, cache: 'hit' }
+    );
+    expect(computed).toBe(1);
+  });
+
+  test('should evict the least recently used entries', async () => {
+    const cache = new UpstreamCache({ maxEntries: 2 });
+    const compute = async (): Promise<string> => 'value';
+
+    await cache.remember('a', compute);
+    await cache.remember('b', compute);
+    await cache.remember('a', compute);
+    await cache.remember('c', compute);
+
+    expect((await cache.remember('a', compute)).cache).toBe('hit');
+    expect((await cache.remember('b', compute)).cache).toBe('miss');
+  });
+
+  test('should not cache anything with zero entries', async () => {
+    const cache = new UpstreamCache({ maxEntries: 0 });
+    const url = `${upstream.url}/weather-report/de/north/versions.json`;
+
+    await cache.fetchText(url);
+    expect(await cache.fetchText(url)).toEqual({ text: versions.body, cache: 'miss' });
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[1]?.headers['if-none-match']).toBeUndefined();
+  });
+});
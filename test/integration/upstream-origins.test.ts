@@ -0,0 +1,123 @@
+import { HttpDataSource } from '../../src/data/data-source.js';
+import {
+  configureUpstreamOrigins,
+  fetchFromOrigins,
+  getUpstreamOrigins,
+  PRODUCT_OUTPUT_BASE_URL,
+} from '../../src/data/product-output.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { fetchWithRetry } from '../../src/support/http-communication.js';
+import { FakeUpstream } from './fake-upstream.js';
+
+/**
+ * Tests for requesting the product output from the configured origin and its mirrors
+ */
+describe('Upstream origins', () => {
+  let primary: FakeUpstream;
+  let mirrors: FakeUpstream[];
+  let primaryStatus: number;
+  let primaryDelayMs: number;
+
+  const productPath = 'weather-report/de/north/versions.json';
+  const request = (url: string): Promise<string> => fetchWithRetry(url, { retry: { retries: 0 } });
+
+  beforeEach(async () => {
+    primaryStatus = 200;
+    primaryDelayMs = 0;
+    primary = new FakeUpstream(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ status: primaryStatus, body: 'primary' }), primaryDelayMs)
+        )
+    );
+    mirrors = [
+      new FakeUpstream(() => ({ status: 502 })),
+      new FakeUpstream(() => ({ body: 'second mirror' })),
+    ];
+    for (const upstream of [primary, ...mirrors]) {
+      await upstream.start();
+    }
+    configureUpstreamOrigins({
+      baseUrl: `${primary.url}/product/output/`,
+      mirrors: mirrors.map((mirror) => `${mirror.url}/product/output`),
+    });
+  });
+
+  afterEach(async () => {
+    configureUpstreamOrigins({ baseUrl: PRODUCT_OUTPUT_BASE_URL, mirrors: [] });
+    circuitBreakers.reset();
+    for (const upstream of [primary, ...mirrors]) {
+      await upstream.stop();
+    }
+  });
+
+  test('should list the base URL before the mirrors', () => {
+    expect(getUpstreamOrigins()).toEqual([
+      `${primary.url}/product/output`,
+      `${mirrors[0]?.url}/product/output`,
+      `${mirrors[1]?.url}/product/output`,
+    ]);
+  });
+
+  test('should request the base URL while it is available', async () => {
+    expect(await fetchFromOrigins(productPath, request)).toEqual({
+      value: 'primary',
+      origin: `${primary.url}/product/output`,
+    });
+    expect(primary.count(`/product/output/${productPath}`)).toBe(1);
+    expect(mirrors[0]?.requests).toHaveLength(0);
+  });
+
+  test('should try the mirrors in turn when the base URL fails', async () => {
+    primaryStatus = 503;
+
+    expect(await fetchFromOrigins(productPath, request)).toEqual({
+      value: 'second mirror',
+      origin: `${mirrors[1]?.url}/product/output`,
+    });
+    expect(primary.requests).toHaveLength(1);
+    expect(mirrors[0]?.count(`/product/output/${productPath}`)).toBe(1);
+    expect(mirrors[1]?.count(`/product/output/${productPath}`)).toBe(1);
+  });
+
+  test('should not try the mirrors for a missing file', async () => {
+    primaryStatus = 404;
+
+    await expect(fetchFromOrigins(productPath, request)).rejects.toThrow('HTTP error 404');
+    expect(mirrors[0]?.requests).toHaveLength(0);
+    expect(mirrors[1]?.requests).toHaveLength(0);
+  });
+
+  test('should fail with the error of the last origin', async () => {
+    primaryStatus = 503;
+    configureUpstreamOrigins({ mirrors: [`${mirrors[0]?.url}/product/output`] });
+
+    await expect(fetchFromOrigins(productPath, request)).rejects.toThrow('HTTP error 502');
+  });
+
+  test('should not try further origins after the deadline', async () => {
+    primaryDelayMs = 1000;
+    const source = new HttpDataSource();
+
+    const startTime = Date.now();
+    await expect(
+      source.readText(productPath, { retry: { retries: 3, deadlineMs: 200 } })
+    ).rejects.toThrow();
+
+    expect(Date.now() - startTime).toBeLessThan(900);
+    expect(primary.requests).toHaveLength(1);
+    expect(mirrors[0]?.requests).toHaveLength(0);
+    expect(mirrors[1]?.requests).toHaveLength(0);
+  });
+
+  test('should retry with the policy of the read', async () => {
+    primaryStatus = 503;
+    const source = new HttpDataSource({ baseUrl: `${primary.url}/product/output`, mirrors: [] });
+
+    await expect(
+      source.readText(productPath, { retry: { retries: 2, baseDelayMs: 1 } })
+    ).rejects.toThrow('HTTP error 503');
+
+    expect(primary.requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Integration tests for the meteoswissWeatherOutlook tool
+ *
+ * These tests connect an MCP client to an in-process server instance
+ * and read the outlook from the test fixtures.
+ */
+describe('meteoswissWeatherOutlook Tool Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should split the outlook into periods', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherOutlook',
+      arguments: { region: 'north', language: 'en' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const outlook = JSON.parse((result as any).content[0].text);
+    expect(outlook).toMatchObject({
+      region: 'north',
+      language: 'en',
+      title: 'Weather outlook for Northern Switzerland',
+      updatedAt: 'Updated on Saturday, April 26, 2025, 11:43',
+      source: 'meteoswiss',
+    });
+    expect(outlook.periods.map((period: { period: string }) => period.period)).toEqual([
+      'Monday to Wednesday',
+      'Thursday and Friday',
+      'Trend for the weekend',
+    ]);
+    expect(outlook.periods[0].description).toBe(
+      'Under high pressure mostly sunny and dry. On Wednesday increasingly cloudy from the west.\n' +
+        'Temperatures in the lowlands around 20 degrees in the afternoon.'
+    );
+  });
+
+  test('should return outlooks in all languages', async () => {
+    for (const [language, firstPeriod] of [
+      ['de', 'Montag bis Mittwoch'],
+      ['fr', 'Lundi à mercredi'],
+      ['it', 'Da lunedì a mercoledì'],
+    ]) {
+      const result = await client.callTool({
+        name: 'meteoswissWeatherOutlook',
+        arguments: { region: 'south', language },
+      });
+
+      const outlook = JSON.parse((result as any).content[0].text);
+      expect(outlook.language).toBe(language);
+      expect(outlook.periods).toHaveLength(3);
+      expect(outlook.periods[0].period).toBe(firstPeriod);
+    }
+  });
+
+  test('should reject invalid regions', async () => {
+    await expect(
+      client.callTool({
+        name: 'meteoswissWeatherOutlook',
+        arguments: { region: 'east', language: 'en' },
+      })
+    ).rejects.toThrow();
+  });
+});
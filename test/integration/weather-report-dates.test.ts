@@ -0,0 +1,171 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FixtureDataSource } from '../../src/data/data-source.js';
+import { TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import { parseForecastDates, parseUpdatedAt } from '../../src/data/weather-report-dates.js';
+import { fromZurichLocalTime, toZurichIsoString } from '../../src/support/zurich-time.js';
+
+/**
+ * Tests for the issue times and forecast dates of the weather reports
+ */
+describe('Zurich local time', () => {
+  test('should convert local times in summer and winter', () => {
+    expect(fromZurichLocalTime(2025, 4, 26, 7, 2).toISOString()).toBe('2025-04-26T05:02:00.000Z');
+    expect(fromZurichLocalTime(2025, 1, 15, 7, 2).toISOString()).toBe('2025-01-15T06:02:00.000Z');
+  });
+
+  test('should convert local times on the day of the daylight saving change', () => {
+    expect(fromZurichLocalTime(2025, 3, 30, 1, 30).toISOString()).toBe('2025-03-30T00:30:00.000Z');
+    expect(fromZurichLocalTime(2025, 3, 30, 4, 0).toISOString()).toBe('2025-03-30T02:00:00.000Z');
+  });
+
+  test('should format points in time with the local offset', () => {
+    expect(toZurichIsoString(new Date('2025-04-26T15:08:00Z'))).toBe('2025-04-26T17:08:00+02:00');
+    expect(toZurichIsoString(new Date('2025-12-31T23:30:00Z'))).toBe('2026-01-01T00:30:00+01:00');
+  });
+});
+
+describe('parseUpdatedAt', () => {
+  test.each([
+    ['en', 'Updated on Saturday, April 26, 2025, 07:02'],
+    ['de', 'Aktualisiert am Samstag, 26. April 2025, 07:02'],
+    ['fr', 'Mis à jour le samedi 26 avril 2025, 07:02'],
+    ['it', 'Aggiornato sabato 26 aprile 2025, 07:02'],
+  ])('should parse the update line (%s)', (_language, updatedAt) => {
+    expect(parseUpdatedAt(updatedAt)?.toISOString()).toBe('2025-04-26T05:02:00.000Z');
+  });
+
+  test('should parse months with diacritics', () => {
+    expect(parseUpdatedAt('Mis à jour le lundi 18 août 2025, 16:49')?.toISOString()).toBe(
+      '2025-08-18T14:49:00.000Z'
+    );
+    expect(parseUpdatedAt('Aktualisiert am Montag, 3. März 2025, 16:49')?.toISOString()).toBe(
+      '2025-03-03T15:49:00.000Z'
+    );
+  });
+
+  test.each([
+    ['en', 'Updated on Thursday, May 1st, 2025, 07:02'],
+    ['de', 'Aktualisiert am Donnerstag, 1. Mai 2025, 07:02'],
+    ['fr', 'Mis à jour le jeudi 1er mai 2025, 07:02'],
+    ['it', 'Aggiornato giovedì 1º maggio 2025, 07:02'],
+  ])('should parse ordinal days (%s)', (_language, updatedAt) => {
+    expect(parseUpdatedAt(updatedAt)?.toISOString()).toBe('2025-05-01T05:02:00.000Z');
+  });
+
+  test('should parse numeric dates', () => {
+    expect(parseUpdatedAt('Updated at 2025-04-26 15:08')?.toISOString()).toBe(
+      '2025-04-26T13:08:00.000Z'
+    );
+  });
+
+  test('should return undefined without a date', () => {
+    expect(parseUpdatedAt('')).toBeUndefined();
+    expect(parseUpdatedAt('Updated on Saturday, 07:02')).toBeUndefined();
+  });
+});
+
+describe('parseForecastDates', () => {
+  test.each([
+    ['en', ['Today Saturday', 'Tomorrow Sunday', 'Monday']],
+    ['de', ['Heute Samstag', 'Morgen Sonntag', 'Montag']],
+    ['fr', ["Aujourd'hui samedi", 'Demain dimanche', 'Lundi']],
+    ['it', ['Oggi sabato', 'Domani domenica', 'Lunedì']],
+  ])('should date relative days and weekdays (%s)', (_language, labels) => {
+    expect(parseForecastDates(labels, '2025-04-26')).toEqual([
+      '2025-04-26',
+      '2025-04-27',
+      '2025-04-28',
+    ]);
+  });
+
+  test('should date weekdays after the previous day across a week', () => {
+    expect(parseForecastDates(['Friday', 'Saturday', 'Friday'], '2025-04-24')).toEqual([
+      '2025-04-25',
+      '2025-04-26',
+      '2025-05-02',
+    ]);
+  });
+
+  test('should leave unknown labels undated', () => {
+    expect(parseForecastDates(['Weekend', 'Monday'], '2025-04-26')).toEqual([
+      undefined,
+      '2025-04-28',
+    ]);
+  });
+});
+
+describe('Weather report dates', () => {
+  test('should add the issue time and the dates of the days', async () => {
+    const report = await getWeatherReport('north', 'it', { version: 'version__20250426_1104' });
+
+    expect(report.issuedAt).toBe('2025-04-26T13:03:00+02:00');
+    expect(report.forecast.map((day) => day.date)).toEqual([
+      '2025-04-26',
+      '2025-04-27',
+      '2025-04-28',
+    ]);
+  });
+
+  test('should date the report of the previous day', async () => {
+    const report = await getWeatherReport('north', 'de', { version: 'version__20250425_0458' });
+
+    expect(report.issuedAt).toBe('2025-04-25T06:57:00+02:00');
+    expect(report.forecast.map((day) => [day.day, day.date])).toEqual([
+      ['Heute Freitag', '2025-04-25'],
+      ['Morgen Samstag', '2025-04-26'],
+      ['Sonntag', '2025-04-27'],
+    ]);
+  });
+
+  test('should date a French report issued on the first of the month', async () => {
+    // The western report of Saturday morning, moved to Thursday 1 May
+    const fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'weather-report-dates-'));
+    try {
+      const productDir = path.join(fixturesDir, 'weather-report/fr/west');
+      const html = await fs.readFile(
+        path.join(
+          TEST_FIXTURES_ROOT,
+          'weather-report/fr/west/version__20250426_0503/textproduct_fr.xhtml'
+        ),
+        'utf-8'
+      );
+      await fs.mkdir(path.join(productDir, 'version__20250501_0503'), { recursive: true });
+      await fs.writeFile(
+        path.join(productDir, 'version__20250501_0503/textproduct_fr.xhtml'),
+        html
+          .replace('samedi 26 avril 2025', 'jeudi 1er mai 2025')
+          .replace("Aujourd'hui samedi", "Aujourd'hui jeudi")
+          .replace('Demain dimanche', 'Demain vendredi')
+          .replace('<h4>Lundi', '<h4>Samedi')
+      );
+      await fs.writeFile(
+        path.join(productDir, 'versions.json'),
+        JSON.stringify({ currentVersionDirectory: 'version__20250501_0503' })
+      );
+
+      const report = await getWeatherReport('west', 'fr', {}, new FixtureDataSource(fixturesDir));
+
+      expect(report.updatedAt).toBe('Mis à jour le jeudi 1er mai 2025, 07:02');
+      // From the update line, not the version directory (07:03)
+      expect(report.issuedAt).toBe('2025-05-01T07:02:00+02:00');
+      expect(report.forecast.map((day) => [day.day, day.date])).toEqual([
+        ["Aujourd'hui jeudi", '2025-05-01'],
+        ['Demain vendredi', '2025-05-02'],
+        ['Samedi', '2025-05-03'],
+      ]);
+    } finally {
+      await fs.rm(fixturesDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should fall back to the version directory without a date in the update line', async () => {
+    const report = await getWeatherReport('south', 'en', { version: 'version__20250426_0203' });
+
+    expect(report.updatedAt).toBe('Updated at 04:03');
+    expect(report.issuedAt).toBe('2025-04-26T04:03:00+02:00');
+    expect(report.forecast.map((day) => day.date)).toEqual(['2025-04-26', '2025-04-27']);
+  });
+});
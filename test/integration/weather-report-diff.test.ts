@@ -0,0 +1,213 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { diffWeatherReports } from '../../src/data/weather-report-diff.js';
+import { parseTemperatureText } from '../../src/data/weather-report-temperatures.js';
+import type { WeatherReport } from '../../src/schemas/weather-report.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the meteoswissWeatherReportDiff tool
+ *
+ * Compares the north region versions of Friday morning (0458), Saturday morning (0503)
+ * and Saturday midday (1104).
+ */
+describe('meteoswissWeatherReportDiff', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function callDiff(args: Record<string, unknown>): Promise<any> {
+    return client.callTool({ name: 'meteoswissWeatherReportDiff', arguments: args });
+  }
+
+  test('should report changed descriptions and temperatures within a day', async () => {
+    const result = await callDiff({
+      region: 'north',
+      language: 'en',
+      from: 'version__20250426_0503',
+      to: 'version__20250426_1104',
+    });
+
+    expect(result.isError).toBeFalsy();
+    const diff = JSON.parse(result.content[0].text);
+    expect(diff.from).toEqual({
+      version: 'version__20250426_0503',
+      updatedAt: 'Updated on Saturday, April 26, 2025, 07:02',
+      issuedAt: '2025-04-26T07:02:00+02:00',
+    });
+    expect(diff.to.version).toBe('version__20250426_1104');
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 2, unchanged: 1 });
+
+    const [saturday, sunday, monday] = diff.days;
+    expect(saturday.status).toBe('changed');
+    expect(saturday.description.removedSentences).toEqual([
+      'Sunny in the morning, increasing cumulus clouds in the afternoon.',
+      'Isolated thunderstorms in the evening, mainly along the Prealps.',
+    ]);
+    expect(saturday.description.addedSentences).toEqual([
+      'Cumulus clouds from midday and thunderstorms from late afternoon, mainly along the Prealps and in the Jura.',
+    ]);
+    expect(saturday.temperature).toBeUndefined();
+
+    expect(sunday.status).toBe('changed');
+    expect(sunday.description).toBeUndefined();
+    expect(sunday.temperature).toEqual({
+      from: 'Temperature in the lowlands early in the morning around 11, in the afternoon around 19 degrees.',
+      to: 'Temperature in the lowlands early in the morning around 12, in the afternoon around 18 degrees.',
+      addedSentences: [
+        'Temperature in the lowlands early in the morning around 12, in the afternoon around 18 degrees.',
+      ],
+      removedSentences: [
+        'Temperature in the lowlands early in the morning around 11, in the afternoon around 19 degrees.',
+      ],
+    });
+    expect(sunday.temperatureChanges).toEqual([
+      {
+        altitudeContext: 'lowlands',
+        timeOfDay: 'early-morning',
+        from: { minC: 11, maxC: 11 },
+        to: { minC: 12, maxC: 12 },
+        minDeltaC: 1,
+        maxDeltaC: 1,
+      },
+      {
+        altitudeContext: 'lowlands',
+        timeOfDay: 'afternoon',
+        from: { minC: 19, maxC: 19 },
+        to: { minC: 18, maxC: 18 },
+        minDeltaC: -1,
+        maxDeltaC: -1,
+      },
+    ]);
+
+    expect(monday).toEqual({ day: 'Monday', date: '2025-04-28', status: 'unchanged' });
+  });
+
+  test('should align days across a day change', async () => {
+    const result = await callDiff({
+      region: 'north',
+      language: 'de',
+      from: 'version__20250425_0458',
+      to: 'version__20250426_0503',
+    });
+
+    const diff = JSON.parse(result.content[0].text);
+    expect(diff.days.map((day: { day: string; status: string }) => [day.day, day.status])).toEqual([
+      ['Heute Freitag', 'removed'],
+      ['Heute Samstag', 'changed'],
+      ['Morgen Sonntag', 'changed'],
+      ['Montag', 'added'],
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2, unchanged: 0 });
+    expect(diff.days[3].description.to).toBeDefined();
+    expect(diff.days[3].description.from).toBeUndefined();
+  });
+
+  test('should compare against the current report by default', async () => {
+    const result = await callDiff({
+      region: 'north',
+      language: 'en',
+      from: '2025-04-26T12:00:00+02:00',
+    });
+
+    expect(result.isError).toBeFalsy();
+    const diff = JSON.parse(result.content[0].text);
+    expect(diff.from.version).toBe('version__20250426_0503');
+    expect(diff.to.version).toBe('version__20250426_1508');
+  });
+
+  test('should return an error for unknown versions', async () => {
+    const result = await callDiff({
+      region: 'north',
+      language: 'en',
+      from: 'version__20250101_0000',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      'Failed to compare weather reports for region "north" in language "en": '
+    );
+    expect(result.content[0].text).toContain(
+      'Unknown weather report version version__20250101_0000'
+    );
+  });
+
+  describe('temperatures', () => {
+    function report(version: string, temperature: string): WeatherReport {
+      return {
+        region: 'west',
+        language: 'fr',
+        title: 'Bulletin météo',
+        updatedAt: version,
+        content: '',
+        forecast: [
+          {
+            day: 'Dimanche',
+            date: '2025-04-27',
+            description: 'Ensoleillé.',
+            temperature,
+            temperatures: parseTemperatureText(temperature),
+          },
+        ],
+        version,
+        source: 'meteoswiss',
+      };
+    }
+
+    test('should report the delta when only a number changes within a sentence', () => {
+      const diff = diffWeatherReports(
+        report(
+          'version__20250426_0503',
+          "En plaine, l'après-midi de 20 à 24 degrés. À 2000 m, 6 degrés."
+        ),
+        report(
+          'version__20250426_1104',
+          "En plaine, l'après-midi de 20 à 26 degrés. À 2000 m, 6 degrés."
+        )
+      );
+
+      const [sunday] = diff.days;
+      expect(sunday?.status).toBe('changed');
+      expect(sunday?.temperature?.removedSentences).toEqual([
+        "En plaine, l'après-midi de 20 à 24 degrés.",
+      ]);
+      expect(sunday?.temperatureChanges).toEqual([
+        {
+          altitudeContext: 'lowlands',
+          timeOfDay: 'afternoon',
+          from: { minC: 20, maxC: 24 },
+          to: { minC: 20, maxC: 26 },
+          minDeltaC: 0,
+          maxDeltaC: 2,
+        },
+      ]);
+    });
+
+    test('should report added and removed temperatures without a delta', () => {
+      const diff = diffWeatherReports(
+        report('version__20250426_0503', "L'après-midi 22 degrés. À 2000 m, 6 degrés."),
+        report('version__20250426_1104', "L'après-midi 22 degrés, en Valais jusqu'à 25 degrés.")
+      );
+
+      expect(diff.days[0]?.temperatureChanges).toEqual([
+        { timeOfDay: 'afternoon', area: 'Valais', to: { maxC: 25 } },
+        { altitudeContext: '2000 m', from: { minC: 6, maxC: 6 } },
+      ]);
+    });
+
+    test('should not list temperatures of unchanged days', () => {
+      const temperature = 'En plaine, 22 degrés.';
+      const diff = diffWeatherReports(
+        report('version__20250426_0503', temperature),
+        report('version__20250426_1104', temperature)
+      );
+
+      expect(diff.days).toEqual([{ day: 'Dimanche', date: '2025-04-27', status: 'unchanged' }]);
+    });
+  });
+});
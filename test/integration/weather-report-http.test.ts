@@ -81,8 +81,8 @@ describe('meteoswissWeatherReport Tool Tests', () => {
     expect(Array.isArray(result.content)).toBe(true);
     expect(result.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const reportData = JSON.parse(result.content[0].text);
+    // Read the structured content
+    const reportData = result.structuredContent;
     expect(reportData).toHaveProperty('region', 'north');
     expect(reportData).toHaveProperty('language', 'de');
     expect(reportData.forecast.length).toBe(2);
@@ -0,0 +1,102 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { formatWeatherReportText } from '../../src/tools/meteoswiss-weather-report.js';
+import type { WeatherReport } from '../../src/schemas/weather-report.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the structured output of the meteoswissWeatherReport tool
+ */
+describe('meteoswissWeatherReport structured output', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should declare the weather report as output schema', async () => {
+    const { tools } = await client.listTools();
+    const tool = tools.find((candidate) => candidate.name === 'meteoswissWeatherReport');
+
+    expect(tool?.outputSchema).toMatchObject({
+      type: 'object',
+      required: expect.arrayContaining(['region', 'title', 'forecast', 'source']),
+    });
+    expect(Object.keys(tool?.outputSchema?.properties ?? {})).toContain('issuedAt');
+  });
+
+  test('should return the report as structured content and as text', async () => {
+    const result: any = await client.callTool({
+      name: 'meteoswissWeatherReport',
+      arguments: { region: 'north', language: 'fr', version: 'version__20250426_0503' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      region: 'north',
+      language: 'fr',
+      version: 'version__20250426_0503',
+      source: 'meteoswiss',
+    });
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0].text).toContain('Mis à jour le samedi 26 avril 2025, 07:02');
+    expect(result.content[0].text).toContain("Aujourd'hui samedi (2025-04-26)");
+    expect(() => JSON.parse(result.content[0].text)).toThrow();
+  });
+
+  test('should return errors without structured content', async () => {
+    const result: any = await client.callTool({
+      name: 'meteoswissWeatherReport',
+      arguments: { language: 'de' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0].text).toContain('Either region or location is required');
+  });
+});
+
+describe('formatWeatherReportText', () => {
+  test('should render the title, update time, location and forecast days', () => {
+    const report: WeatherReport = {
+      region: 'south',
+      language: 'en',
+      title: 'Weather report Southern Switzerland',
+      updatedAt: 'Updated on Saturday, April 26, 2025, 07:02',
+      content: '',
+      forecast: [
+        {
+          day: 'Today Saturday',
+          date: '2025-04-26',
+          description: 'Sunny.',
+          temperature: 'Temperature in the afternoon 22 degrees.',
+        },
+        { day: 'Sunday', description: 'Cloudy.' },
+      ],
+      location: {
+        name: 'Lugano',
+        canton: 'TI',
+        region: 'south',
+        postalCode: '6900',
+        weatherPillId: '690000',
+        stationId: 'LUG',
+        coordinates: { latitude: 46.0, longitude: 8.95 },
+        matchedBy: 'locality',
+      },
+      source: 'meteoswiss',
+    };
+
+    expect(formatWeatherReportText(report)).toBe(
+      [
+        'Weather report Southern Switzerland',
+        'Updated on Saturday, April 26, 2025, 07:02',
+        'Location: Lugano (TI), region south',
+        'Today Saturday (2025-04-26)\nSunny.\nTemperature in the afternoon 22 degrees.',
+        'Sunday\nCloudy.',
+      ].join('\n\n')
+    );
+  });
+});
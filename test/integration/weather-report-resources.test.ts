@@ -0,0 +1,167 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { HttpDataSource } from '../../src/data/data-source.js';
+import {
+  DEFAULT_LAST_GOOD_REPORTS_DIR,
+  lastGoodReports,
+} from '../../src/data/last-good-reports.js';
+import { TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { configureRetryPolicy, resolveRetryPolicy } from '../../src/support/retry-policy.js';
+import { upstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the weather report resources and resource template
+ */
+describe('Weather report resources', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list a resource for every region and language', async () => {
+    const { resources } = await client.listResources();
+    const reportUris = resources
+      .map((resource) => resource.uri)
+      .filter((uri) => uri.startsWith('meteoswiss://weather-report/'));
+
+    expect(reportUris).toHaveLength(12);
+    expect(reportUris).toContain('meteoswiss://weather-report/north/de');
+    expect(reportUris).toContain('meteoswiss://weather-report/west/it');
+  });
+
+  test('should provide the index of the weather report resources', async () => {
+    const resource = await client.readResource({ uri: 'meteoswiss://weather-reports' });
+    const index = JSON.parse((resource.contents[0] as any).text);
+
+    expect(index).toHaveLength(12);
+    expect(index[0]).toEqual({
+      uri: 'meteoswiss://weather-report/north/de',
+      name: 'Weather report north (de)',
+      mimeType: 'application/json',
+    });
+  });
+
+  test('should expose the resource template', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates).toContainEqual(
+      expect.objectContaining({
+        name: 'weather-report',
+        uriTemplate: 'meteoswiss://weather-report/{region}/{language}',
+      })
+    );
+  });
+
+  test('should return the parsed report and the original XHTML', async () => {
+    const resource = await client.readResource({ uri: 'meteoswiss://weather-report/south/fr' });
+
+    expect(resource.contents).toHaveLength(2);
+    const [json, xhtml] = resource.contents as any[];
+    expect(json.mimeType).toBe('application/json');
+    const report = JSON.parse(json.text);
+    expect(report).toMatchObject({ region: 'south', language: 'fr', source: 'meteoswiss' });
+    expect(report.version).toBe('version__20250426_1508');
+
+    expect(xhtml.uri).toBe('meteoswiss://weather-report/south/fr');
+    expect(xhtml.mimeType).toBe('application/xhtml+xml');
+    expect(xhtml.text).toContain('<h4>');
+  });
+
+  test('should reject unknown regions', async () => {
+    await expect(
+      client.readResource({ uri: 'meteoswiss://weather-report/east/de' })
+    ).rejects.toThrow('Invalid region: east');
+  });
+
+  test('should complete region and language', async () => {
+    const template = 'meteoswiss://weather-report/{region}/{language}';
+    const regions = await client.complete({
+      ref: { type: 'ref/resource', uri: template },
+      argument: { name: 'region', value: 's' },
+    });
+    expect(regions.completion.values).toEqual(['south']);
+
+    const languages = await client.complete({
+      ref: { type: 'ref/resource', uri: template },
+      argument: { name: 'language', value: '' },
+    });
+    expect(languages.completion.values).toEqual(['de', 'fr', 'it', 'en']);
+  });
+
+  describe('over HTTP', () => {
+    const defaultPolicy = resolveRetryPolicy();
+    const uri = 'meteoswiss://weather-report/west/fr';
+    let upstream: FakeUpstream;
+    let httpClient: Client;
+    let failing: boolean;
+
+    beforeEach(async () => {
+      failing = false;
+      // Serve the fixtures like the product output until the upstream starts failing
+      upstream = new FakeUpstream(async ({ path: productPath }) => {
+        if (failing) {
+          return { status: 503 };
+        }
+        try {
+          return { body: await fs.readFile(path.join(TEST_FIXTURES_ROOT, productPath), 'utf-8') };
+        } catch {
+          return { status: 404 };
+        }
+      });
+      await upstream.start();
+      lastGoodReports.configure('');
+      configureRetryPolicy({ retries: 0 });
+      upstreamCache.clear();
+
+      httpClient = await connectInMemoryClient({
+        dataSource: new HttpDataSource({ baseUrl: upstream.url, mirrors: [] }),
+      });
+    });
+
+    afterEach(async () => {
+      await httpClient.close();
+      configureRetryPolicy(defaultPolicy);
+      lastGoodReports.configure(DEFAULT_LAST_GOOD_REPORTS_DIR);
+      circuitBreakers.reset();
+      upstreamCache.clear();
+      await upstream.stop();
+    });
+
+    test('should fetch the report once for repeated and parallel reads', async () => {
+      await Promise.all(Array.from({ length: 3 }, () => httpClient.readResource({ uri })));
+      const resource = await httpClient.readResource({ uri });
+
+      expect(resource.contents).toHaveLength(2);
+      expect(upstream.count('/weather-report/fr/west/versions.json')).toBe(1);
+      expect(
+        upstream.count('/weather-report/fr/west/version__20250426_1508/textproduct_fr.xhtml')
+      ).toBe(1);
+    });
+
+    test('should return the last good report without XHTML once the upstream fails', async () => {
+      const fresh = await httpClient.readResource({ uri });
+      const freshReport = JSON.parse((fresh.contents[0] as any).text);
+
+      failing = true;
+      upstreamCache.clear();
+      const stale = await httpClient.readResource({ uri });
+
+      expect(stale.contents).toHaveLength(1);
+      const [json] = stale.contents as any[];
+      expect(json.mimeType).toBe('application/json');
+      expect(JSON.parse(json.text)).toMatchObject({
+        version: freshReport.version,
+        stale: true,
+        upstreamError: expect.stringContaining('503'),
+      });
+    });
+  });
+});
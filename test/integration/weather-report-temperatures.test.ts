@@ -0,0 +1,139 @@
+import { getWeatherReport } from '../../src/data/weather-report-data.js';
+import { parseTemperatureText } from '../../src/data/weather-report-temperatures.js';
+
+/**
+ * Tests for the temperatures extracted from the weather report texts
+ *
+ * The texts are taken from the weather report fixtures of Saturday morning (0503).
+ */
+describe('parseTemperatureText', () => {
+  test.each([
+    [
+      'en',
+      'Temperature in the lowlands in the afternoon 20 to 24 degrees. Zero-degree level around 3200 m.',
+    ],
+    ['de', 'Temperatur in den Niederungen am Nachmittag 20 bis 24 Grad. Nullgradgrenze um 3200 m.'],
+    [
+      'fr',
+      "Température en plaine l'après-midi de 20 à 24 degrés. Isotherme du zéro degré vers 3200 m.",
+    ],
+    [
+      'it',
+      'Temperatura in pianura nel pomeriggio tra 20 e 24 gradi. Limite dello zero termico attorno ai 3200 m.',
+    ],
+  ])('should read a lowland range and skip the freezing level (%s)', (_language, text) => {
+    expect(parseTemperatureText(text)).toEqual([
+      {
+        minC: 20,
+        maxC: 24,
+        altitudeContext: 'lowlands',
+        timeOfDay: 'afternoon',
+        text: expect.any(String),
+      },
+    ]);
+  });
+
+  test.each([
+    [
+      'en',
+      'Temperature in the lowlands early in the morning around 11, in the afternoon around 19 degrees.',
+    ],
+    ['de', 'Temperatur in den Niederungen am frühen Morgen um 11, am Nachmittag um 19 Grad.'],
+    ['fr', "Température en plaine en fin de nuit vers 11, l'après-midi vers 19 degrés."],
+    [
+      'it',
+      'Temperatura in pianura al primo mattino attorno a 11, nel pomeriggio attorno a 19 gradi.',
+    ],
+  ])('should read morning and afternoon values (%s)', (_language, text) => {
+    const readings = parseTemperatureText(text);
+    expect(readings.map(({ text: _text, ...reading }) => reading)).toEqual([
+      { minC: 11, maxC: 11, altitudeContext: 'lowlands', timeOfDay: 'early-morning' },
+      { minC: 19, maxC: 19, altitudeContext: 'lowlands', timeOfDay: 'afternoon' },
+    ]);
+  });
+
+  test.each([
+    ['en', 'Temperature in the afternoon 21 degrees. At 2000 m around 5 degrees.'],
+    ['de', 'Temperatur am Nachmittag 21 Grad. In 2000 m um 5 Grad.'],
+    ['fr', "Température l'après-midi 21 degrés. À 2000 m vers 5 degrés."],
+    ['it', 'Temperatura nel pomeriggio 21 gradi. A 2000 m attorno a 5 gradi.'],
+  ])('should read values at altitude (%s)', (_language, text) => {
+    const readings = parseTemperatureText(text);
+    expect(readings.map(({ text: _text, ...reading }) => reading)).toEqual([
+      { minC: 21, maxC: 21, timeOfDay: 'afternoon' },
+      { minC: 5, maxC: 5, altitudeContext: '2000 m' },
+    ]);
+  });
+
+  test.each([
+    ['en', 'Temperature in the afternoon 21 to 24 degrees, in Valais up to 25 degrees.', 'Valais'],
+    ['de', 'Temperatur am Nachmittag 21 bis 24 Grad, im Wallis bis 25 Grad.', 'Wallis'],
+    ['fr', "Température l'après-midi de 21 à 24 degrés, en Valais jusqu'à 25 degrés.", 'Valais'],
+    ['it', 'Temperatura nel pomeriggio tra 21 e 24 gradi, in Vallese fino a 25 gradi.', 'Vallese'],
+  ])('should read upper bounds for an area (%s)', (_language, text, area) => {
+    expect(parseTemperatureText(text)).toEqual([
+      { minC: 21, maxC: 24, timeOfDay: 'afternoon', text: expect.any(String) },
+      { maxC: 25, area, timeOfDay: 'afternoon', text: expect.any(String) },
+    ]);
+  });
+
+  test('should read the lowlands and altitudes of German texts without areas', () => {
+    const readings = parseTemperatureText(
+      'Temperatur im Flachland am Nachmittag 20 bis 24 Grad. In Lagen um 1500 m um 12 Grad.'
+    );
+    expect(readings.map(({ text: _text, ...reading }) => reading)).toEqual([
+      { minC: 20, maxC: 24, altitudeContext: 'lowlands', timeOfDay: 'afternoon' },
+      { minC: 12, maxC: 12, altitudeContext: '1500 m' },
+    ]);
+  });
+
+  test.each([
+    ['Temperatur am Nachmittag 22 Grad, im Engadin bis 18 Grad.', 'Engadin'],
+    ["Température l'après-midi 22 degrés, en Haut-Valais jusqu'à 18 degrés.", 'Haut-Valais'],
+    ['Temperatura nel pomeriggio 22 gradi, in Ticino fino a 18 gradi.', 'Ticino'],
+    ['Temperature in the afternoon 22 degrees, in Geneva up to 18 degrees.', 'Geneva'],
+  ])('should read known areas and places (%s)', (text, area) => {
+    expect(parseTemperatureText(text)[1]).toMatchObject({ maxC: 18, area });
+  });
+
+  test('should not read unknown capitalized words as areas', () => {
+    const [reading] = parseTemperatureText('Temperatur im Durchschnitt um 15 Grad.');
+    expect(reading).toEqual({ minC: 15, maxC: 15, text: expect.any(String) });
+  });
+
+  test('should read compact ranges and keep the clause text', () => {
+    expect(parseTemperatureText('20-25°C')).toEqual([{ minC: 20, maxC: 25, text: '20-25°C' }]);
+    expect(parseTemperatureText('Temperature in the afternoon around -3 degrees.')).toEqual([
+      {
+        minC: -3,
+        maxC: -3,
+        timeOfDay: 'afternoon',
+        text: 'Temperature in the afternoon around -3 degrees.',
+      },
+    ]);
+  });
+
+  test('should return no values for texts without temperatures', () => {
+    expect(parseTemperatureText('Zero-degree level around 3200 m.')).toEqual([]);
+  });
+});
+
+describe('Weather report temperatures', () => {
+  test('should add the parsed temperatures next to the raw text', async () => {
+    const report = await getWeatherReport('west', 'de', { version: 'version__20250426_0503' });
+
+    const [today] = report.forecast;
+    expect(today?.temperature).toBe(
+      'Temperatur am Nachmittag 21 bis 24 Grad, im Wallis bis 25 Grad.'
+    );
+    expect(today?.temperatures).toEqual([
+      {
+        minC: 21,
+        maxC: 24,
+        timeOfDay: 'afternoon',
+        text: 'Temperatur am Nachmittag 21 bis 24 Grad',
+      },
+      { maxC: 25, area: 'Wallis', timeOfDay: 'afternoon', text: 'im Wallis bis 25 Grad.' },
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { HttpDataSource } from '../../src/data/data-source.js';
+import {
+  DEFAULT_LAST_GOOD_REPORTS_DIR,
+  lastGoodReports,
+} from '../../src/data/last-good-reports.js';
+import { getWeatherReport, listTextProductVersions } from '../../src/data/weather-report-data.js';
+import { parseVersionDirectory, TEST_FIXTURES_ROOT } from '../../src/data/product-output.js';
+import { VersionHistory } from '../../src/data/version-history.js';
+import { circuitBreakers } from '../../src/support/circuit-breaker.js';
+import { upstreamCache } from '../../src/support/upstream-cache.js';
+import { FakeUpstream } from './fake-upstream.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for historical weather report versions
+ *
+ * The north region fixtures contain the versions of Friday morning, Saturday morning
+ * and Saturday midday next to the current version.
+ */
+describe('Weather report versions', () => {
+  test('should parse version directory names as UTC', () => {
+    expect(parseVersionDirectory('version__20250426_1508')?.toISOString()).toBe(
+      '2025-04-26T15:08:00.000Z'
+    );
+    expect(parseVersionDirectory('versions.json')).toBeUndefined();
+  });
+
+  test('should list the available versions newest first', async () => {
+    const versions = await listTextProductVersions('weather-report', 'north', 'de');
+    expect(versions).toEqual([
+      {
+        versionDirectory: 'version__20250426_1508',
+        publishedAt: '2025-04-26T15:08:00.000Z',
+        current: true,
+      },
+      {
+        versionDirectory: 'version__20250426_1104',
+        publishedAt: '2025-04-26T11:04:00.000Z',
+        current: false,
+      },
+      {
+        versionDirectory: 'version__20250426_0503',
+        publishedAt: '2025-04-26T05:03:00.000Z',
+        current: false,
+      },
+      {
+        versionDirectory: 'version__20250425_0458',
+        publishedAt: '2025-04-25T04:58:00.000Z',
+        current: false,
+      },
+    ]);
+  });
+});
+
+describe('meteoswissWeatherReport version parameters', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function callReport(args: Record<string, unknown>): Promise<any> {
+    return client.callTool({ name: 'meteoswissWeatherReport', arguments: args });
+  }
+
+  test('should report the version of the current report', async () => {
+    const result = await callReport({ region: 'north', language: 'de' });
+    expect(result.structuredContent.version).toBe('version__20250426_1508');
+  });
+
+  test('should return a specific version', async () => {
+    const result = await callReport({
+      region: 'north',
+      language: 'fr',
+      version: 'version__20250426_0503',
+    });
+
+    expect(result.isError).toBeFalsy();
+    const report = result.structuredContent;
+    expect(report.version).toBe('version__20250426_0503');
+    expect(report.updatedAt).toBe('Mis à jour le samedi 26 avril 2025, 07:02');
+    expect(report.forecast.map((day: { day: string }) => day.day)).toEqual([
+      "Aujourd'hui samedi",
+      'Demain dimanche',
+      'Lundi',
+    ]);
+  });
+
+  test('should return the report that was valid yesterday morning', async () => {
+    const result = await callReport({
+      region: 'north',
+      language: 'en',
+      asOf: '2025-04-25T09:00:00+02:00',
+    });
+
+    const report = result.structuredContent;
+    expect(report.version).toBe('version__20250425_0458');
+    expect(report.forecast[0].day).toBe('Today Friday');
+  });
+
+  test('should pick the latest version published before asOf', async () => {
+    const result = await callReport({
+      region: 'north',
+      language: 'de',
+      asOf: '2025-04-26T11:03:59Z',
+    });
+
+    expect(result.structuredContent.version).toBe('version__20250426_0503');
+  });
+
+  test('should return an error for unknown versions', async () => {
+    const result = await callReport({
+      region: 'south',
+      language: 'it',
+      version: 'version__20250101_0000',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      'Unknown weather report version version__20250101_0000 for south in it, available: version__20250426_1508, version__20250426_0503'
+    );
+  });
+
+  test('should return an error before the oldest version', async () => {
+    const result = await callReport({ region: 'west', asOf: '2025-04-01T00:00:00Z' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('the oldest version is from 2025-04-26T05:03:00.000Z');
+  });
+
+  test('should not accept version and asOf together', async () => {
+    const result = await callReport({
+      region: 'north',
+      version: 'version__20250426_0503',
+      asOf: '2025-04-26T08:00:00+02:00',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Specify either version or asOf, not both');
+  });
+});
+
+/**
+ * The product output names only the current version in versions.json, so earlier versions
+ * are the ones it named before, or found by their version directory
+ */
+describe('Weather report versions over HTTP', () => {
+  let upstream: FakeUpstream;
+  let source: HttpDataSource;
+  let current: string;
+
+  // Moves the upstream to a new current version
+  function publish(versionDirectory: string): void {
+    current = versionDirectory;
+    upstreamCache.clear();
+  }
+
+  beforeAll(() => {
+    lastGoodReports.configure('');
+  });
+
+  afterAll(() => {
+    lastGoodReports.configure(DEFAULT_LAST_GOOD_REPORTS_DIR);
+  });
+
+  beforeEach(async () => {
+    publish('version__20250426_1104');
+    // Serve the fixtures, with a versions.json that names only the current version
+    upstream = new FakeUpstream(async ({ path: productPath }) => {
+      if (productPath.endsWith('/versions.json')) {
+        return { body: JSON.stringify({ currentVersionDirectory: current }) };
+      }
+      try {
+        return { body: await fs.readFile(path.join(TEST_FIXTURES_ROOT, productPath), 'utf-8') };
+      } catch {
+        return { status: 404 };
+      }
+    });
+    await upstream.start();
+    source = new HttpDataSource({ baseUrl: upstream.url, mirrors: [] });
+  });
+
+  afterEach(async () => {
+    circuitBreakers.reset();
+    upstreamCache.clear();
+    await upstream.stop();
+  });
+
+  test('should list the versions versions.json named as current', async () => {
+    expect((await getWeatherReport('north', 'de', {}, source)).version).toBe(
+      'version__20250426_1104'
+    );
+    publish('version__20250426_1508');
+
+    const versions = await listTextProductVersions('weather-report', 'north', 'de', source);
+
+    expect(versions.map((version) => [version.versionDirectory, version.current])).toEqual([
+      ['version__20250426_1508', true],
+      ['version__20250426_1104', false],
+    ]);
+  });
+
+  test('should return an earlier current version asOf a time', async () => {
+    await getWeatherReport('north', 'de', {}, source);
+    publish('version__20250426_1508');
+
+    const report = await getWeatherReport(
+      'north',
+      'de',
+      { asOf: '2025-04-26T14:00:00+02:00' },
+      source
+    );
+
+    expect(report.version).toBe('version__20250426_1104');
+  });
+
+  test('should keep the versions named as current across a restart', async () => {
+    const historyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'version-history-'));
+    try {
+      const origins = { baseUrl: upstream.url, mirrors: [] };
+      await getWeatherReport(
+        'north',
+        'de',
+        {},
+        new HttpDataSource(origins, new VersionHistory(historyDir))
+      );
+      publish('version__20250426_1508');
+
+      const restarted = new HttpDataSource(origins, new VersionHistory(historyDir));
+      const report = await getWeatherReport(
+        'north',
+        'de',
+        { asOf: '2025-04-26T14:00:00+02:00' },
+        restarted
+      );
+
+      expect(report.version).toBe('version__20250426_1104');
+      expect(
+        JSON.parse(
+          await fs.readFile(path.join(historyDir, 'weather-report-de-north.json'), 'utf-8')
+        )
+      ).toEqual({ versionDirectories: ['version__20250426_1104', 'version__20250426_1508'] });
+    } finally {
+      await fs.rm(historyDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should return a version that was never current since the start', async () => {
+    const report = await getWeatherReport(
+      'north',
+      'fr',
+      { version: 'version__20250426_0503' },
+      source
+    );
+
+    expect(report.version).toBe('version__20250426_0503');
+    expect(report.updatedAt).toBe('Mis à jour le samedi 26 avril 2025, 07:02');
+  });
+
+  test('should return an error for versions the product output does not have', async () => {
+    await expect(
+      getWeatherReport('north', 'de', { version: 'version__20250101_0000' }, source)
+    ).rejects.toThrow(
+      'Unknown weather report version version__20250101_0000 for north in de, available: version__20250426_1104'
+    );
+  });
+});
@@ -105,8 +105,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(northResult.content[0]).toHaveProperty('type', 'text');
     expect(northResult.content[0]).toHaveProperty('text');
 
-    // Parse the text content as JSON
-    const northReportData = JSON.parse(northResult.content[0].text);
+    // Read the structured content
+    const northReportData = northResult.structuredContent;
     expect(northReportData).toHaveProperty('region', 'north');
     expect(northReportData).toHaveProperty('language', 'en');
     expect(northReportData).toHaveProperty('title');
@@ -129,8 +129,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(Array.isArray(southResult.content)).toBe(true);
     expect(southResult.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const southReportData = JSON.parse(southResult.content[0].text);
+    // Read the structured content
+    const southReportData = southResult.structuredContent;
     expect(southReportData).toHaveProperty('region', 'south');
     expect(southReportData).toHaveProperty('language', 'en');
     expect(southReportData).toHaveProperty('title');
@@ -150,8 +150,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(Array.isArray(westResult.content)).toBe(true);
     expect(westResult.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const westReportData = JSON.parse(westResult.content[0].text);
+    // Read the structured content
+    const westReportData = westResult.structuredContent;
     expect(westReportData).toHaveProperty('region', 'west');
     expect(westReportData).toHaveProperty('language', 'en');
     expect(westReportData).toHaveProperty('title');
@@ -175,8 +175,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(Array.isArray(germanResult.content)).toBe(true);
     expect(germanResult.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const germanReportData = JSON.parse(germanResult.content[0].text);
+    // Read the structured content
+    const germanReportData = germanResult.structuredContent;
     expect(germanReportData).toHaveProperty('language', 'de');
     expect(germanReportData.forecast.length).toBe(2);
 
@@ -191,8 +191,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(Array.isArray(frenchResult.content)).toBe(true);
     expect(frenchResult.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const frenchReportData = JSON.parse(frenchResult.content[0].text);
+    // Read the structured content
+    const frenchReportData = frenchResult.structuredContent;
     expect(frenchReportData).toHaveProperty('language', 'fr');
     expect(frenchReportData.forecast.length).toBe(2);
 
@@ -207,8 +207,8 @@ describe('meteoswissWeatherReport Tool Integration Tests', () => {
     expect(Array.isArray(italianResult.content)).toBe(true);
     expect(italianResult.content[0]).toHaveProperty('type', 'text');
 
-    // Parse the text content as JSON
-    const italianReportData = JSON.parse(italianResult.content[0].text);
+    // Read the structured content
+    const italianReportData = italianResult.structuredContent;
     expect(italianReportData).toHaveProperty('language', 'it');
     expect(italianReportData.forecast.length).toBe(2);
   });
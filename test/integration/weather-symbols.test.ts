@@ -0,0 +1,96 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  WEATHER_SYMBOLS,
+  describeWeatherSymbol,
+  getWeatherSymbol,
+} from '../../src/data/weather-symbols.js';
+import { WeatherSymbolSchema } from '../../src/schemas/weather-symbol.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+describe('Weather symbol catalogue', () => {
+  it('should contain every day and night symbol id', () => {
+    const ids = WEATHER_SYMBOLS.map((symbol) => symbol.id);
+    for (let id = 1; id <= 42; id++) {
+      expect(ids).toContain(id);
+      expect(ids).toContain(id + 100);
+    }
+    expect(ids).toHaveLength(84);
+  });
+
+  it('should match the schema with labels in all languages', () => {
+    for (const symbol of WEATHER_SYMBOLS) {
+      expect(WeatherSymbolSchema.parse(symbol)).toEqual(symbol);
+      expect(Object.values(symbol.labels).every((label) => label.length > 0)).toBe(true);
+    }
+  });
+
+  it('should use night wording for night symbols', () => {
+    expect(getWeatherSymbol(1)?.labels.en).toBe('Sunny');
+    expect(getWeatherSymbol(101)).toMatchObject({
+      daytime: false,
+      category: 'clear',
+      labels: { de: 'Klar', en: 'Clear' },
+    });
+    // Symbols without sun keep the day wording at night
+    expect(getWeatherSymbol(128)?.labels).toEqual(getWeatherSymbol(28)?.labels);
+  });
+
+  it('should describe symbols in the requested language', () => {
+    expect(describeWeatherSymbol(26, 'de')).toEqual({
+      symbolId: 26,
+      daytime: true,
+      category: 'partly-cloudy',
+      label: 'Hohe Wolkenfelder',
+    });
+    expect(describeWeatherSymbol(24, 'it')?.category).toBe('thunderstorm');
+    expect(describeWeatherSymbol(99, 'en')).toBeUndefined();
+  });
+});
+
+describe('Weather symbol tool and resource', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should look up a symbol via meteoswissWeatherSymbol', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherSymbol',
+      arguments: { symbolId: 29, language: 'fr' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse((result as any).content[0].text)).toEqual({
+      symbolId: 29,
+      daytime: true,
+      category: 'showers',
+      label: 'Éclaircies, averses éparses',
+    });
+  });
+
+  test('should return an error for unknown symbols', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherSymbol',
+      arguments: { symbolId: 77 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('Unknown weather symbol id 77');
+  });
+
+  test('should expose the catalogue as a resource', async () => {
+    const resources = await client.listResources();
+    expect(resources.resources).toContainEqual(
+      expect.objectContaining({ uri: 'meteoswiss://weather-symbols' })
+    );
+
+    const resource = await client.readResource({ uri: 'meteoswiss://weather-symbols' });
+    const catalogue = JSON.parse((resource.contents[0] as any).text);
+    expect(catalogue).toHaveLength(84);
+  });
+});
@@ -0,0 +1,183 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { getActiveWarnings } from '../../src/data/warnings-data.js';
+import type { WarningArea } from '../../src/data/warnings-data.js';
+import type { Language } from '../../src/types/meteoswiss.js';
+import { connectInMemoryClient } from './in-memory-client.js';
+
+/**
+ * Tests for the warnings data module and the meteoswissWeatherWarnings tool
+ *
+ * The current warnings fixture is a severe day, issued at 14:00 UTC on 26 April 2025;
+ * version__20250425_1000 is a quiet day.
+ */
+describe('Weather warnings data', () => {
+  const quietDay = new Date('2025-04-25T10:00:00Z');
+  const severeDay = new Date('2025-04-26T16:00:00Z');
+
+  function getWarnings(area: WarningArea, language: Language, now: Date, version?: string) {
+    return getActiveWarnings(area, language, version, undefined, now);
+  }
+
+  test('should return no warnings for a quiet day in the north', async () => {
+    const warnings = await getWarnings(
+      { region: 'north' },
+      'en',
+      quietDay,
+      'version__20250425_1000'
+    );
+    expect(warnings).toEqual({
+      region: 'north',
+      language: 'en',
+      issuedAt: '2025-04-25T10:00:00.000Z',
+      highestLevel: 0,
+      warnings: [],
+      source: 'meteoswiss',
+    });
+  });
+
+  test('should return warnings valid until further notice', async () => {
+    const warnings = await getWarnings(
+      { region: 'south' },
+      'it',
+      quietDay,
+      'version__20250425_1000'
+    );
+    expect(warnings.warnings).toEqual([
+      {
+        id: 'FIRE-TI-20250424',
+        hazard: 'forest-fire',
+        hazardLabel: "Pericolo d'incendi boschivi",
+        level: 2,
+        levelLabel: 'Pericolo moderato',
+        validFrom: '2025-04-24T08:00:00.000Z',
+        validTo: null,
+        regions: ['south'],
+        cantons: ['TI'],
+        text: "Pericolo d'incendio boschivo marcato. Accendere fuochi solo nei focolari fissi.",
+      },
+    ]);
+  });
+
+  test('should leave out warnings that have ended', async () => {
+    const warnings = await getWarnings({ region: 'north' }, 'de', severeDay);
+    expect(warnings.warnings.map((warning) => warning.hazard)).toEqual(['thunderstorm']);
+    expect(warnings.highestLevel).toBe(4);
+
+    const nextMorning = await getWarnings({ region: 'north' }, 'de', new Date('2025-04-27T06:00Z'));
+    expect(nextMorning.warnings).toEqual([]);
+    expect(nextMorning.highestLevel).toBe(0);
+  });
+
+  test('should leave out warnings that have not started yet', async () => {
+    // The wind warning starts an hour after the warnings were issued
+    const atIssue = await getWarnings({ region: 'west' }, 'en', new Date('2025-04-26T14:00Z'));
+    expect(atIssue.warnings).toEqual([]);
+
+    const atStart = await getWarnings({ region: 'west' }, 'en', new Date('2025-04-26T15:00Z'));
+    expect(atStart.warnings.map((warning) => [warning.hazard, warning.level])).toEqual([
+      ['wind', 2],
+    ]);
+  });
+
+  test('should localize the labels and texts', async () => {
+    const warnings = await getWarnings({ postalCode: '8004' }, 'fr', severeDay);
+
+    expect(warnings).toMatchObject({ region: 'north', postalCode: '8004', canton: 'ZH' });
+    expect(warnings.highestLevel).toBe(4);
+    expect(warnings.warnings[0]).toMatchObject({
+      hazard: 'thunderstorm',
+      hazardLabel: 'Orages',
+      level: 4,
+      levelLabel: 'Fort danger',
+      validFrom: '2025-04-26T14:00:00.000Z',
+      validTo: '2025-04-26T21:00:00.000Z',
+    });
+    expect(warnings.warnings[0]?.text).toContain('Violents orages');
+  });
+
+  test('should order warnings by level and only include the canton of a postal code', async () => {
+    const lugano = await getWarnings({ postalCode: '6900' }, 'en', severeDay);
+    expect(lugano).toMatchObject({ region: 'south', postalCode: '6900', canton: 'TI' });
+    expect(lugano.warnings.map((warning) => [warning.hazard, warning.level])).toEqual([
+      ['rain', 3],
+      ['forest-fire', 3],
+    ]);
+
+    const poschiavo = await getWarnings({ postalCode: '7742' }, 'en', severeDay);
+    expect(poschiavo.warnings.map((warning) => warning.hazard)).toEqual(['rain']);
+
+    // Chur is in the same canton, but north of the Alps
+    const chur = await getWarnings({ postalCode: '7000' }, 'en', severeDay);
+    expect(chur.warnings).toEqual([]);
+  });
+
+  test('should reject postal codes not in the gazetteer', async () => {
+    await expect(getWarnings({ postalCode: '3303' }, 'en', severeDay)).rejects.toThrow(
+      'Postal code 3303 is not supported'
+    );
+  });
+});
+
+describe('meteoswissWeatherWarnings Tool Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connectInMemoryClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  // The fixtures are from April 2025, so only the warnings without an end are still active
+  test('should return the warnings active now for a postal code', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherWarnings',
+      arguments: { postalCode: '6900', language: 'fr' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const warnings = JSON.parse((result as any).content[0].text);
+    expect(warnings.highestLevel).toBe(3);
+    expect(warnings.warnings).toHaveLength(1);
+    expect(warnings.warnings[0]).toMatchObject({
+      hazard: 'forest-fire',
+      hazardLabel: "Danger d'incendies de forêt",
+      level: 3,
+      levelLabel: 'Danger marqué',
+      validTo: null,
+    });
+  });
+
+  test('should leave out ended warnings for a region', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherWarnings',
+      arguments: { region: 'west' },
+    });
+
+    const warnings = JSON.parse((result as any).content[0].text);
+    expect(warnings.warnings).toEqual([]);
+    expect(warnings.highestLevel).toBe(0);
+  });
+
+  test('should return an error for an unknown postal code', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherWarnings',
+      arguments: { postalCode: '9999' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('postal code "9999"');
+    expect((result as any).content[0].text).toContain('Postal code 9999 is not supported');
+  });
+
+  test('should require a region or a postal code', async () => {
+    const result = await client.callTool({
+      name: 'meteoswissWeatherWarnings',
+      arguments: {},
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result as any).content[0].text).toContain('Either region or postalCode is required');
+  });
+});